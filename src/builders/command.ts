@@ -4,19 +4,47 @@ export class CommandBuilder {
   private readonly containerJunitPath = '/tmp/phpunit-junit.xml';
 
   extractJUnitPath(command: string): string | null {
-    const match = command.match(/--log-junit\s+(\S+)/);
-    return match ? match[1]! : null;
+    return this.extractJUnitPaths(command)[0] ?? null;
   }
 
-  addJUnitLogging(command: string, localJunitPath: string): string {
+  // Every --log-junit path, e.g. of `phpunit ... && phpunit ...` chains
+  extractJUnitPaths(command: string): string[] {
+    return this.extractOptionPaths(command, ['--log-junit']);
+  }
+
+  // Logs PHPUnit writes while the tests run, readable after a timeout
+  extractEventLogPaths(command: string): string[] {
+    return this.extractOptionPaths(command, [
+      '--log-teamcity',
+      '--log-events-text',
+      '--log-events-verbose-text',
+    ]);
+  }
+
+  // `--teamcity` prints service messages instead of the default output
+  hasTeamCityOutput(command: string): boolean {
+    return /(?:^|\s)--teamcity(?=\s|$)/.test(command);
+  }
+
+  private extractOptionPaths(command: string, options: string[]): string[] {
+    const pattern = new RegExp(`(?:${options.join('|')})(?:\\s+|=)(\\S+)`, 'g');
+    const paths = Array.from(command.matchAll(pattern), (match) => match[1]!);
+    return [...new Set(paths)];
+  }
+
+  addJUnitLogging(
+    command: string,
+    localJunitPath: string,
+    containerJunitPath = this.containerJunitPath,
+  ): string {
     if (command.includes('--log-junit')) {
       return command;
     }
 
     const junitPath = isDockerCommand(command)
-      ? this.containerJunitPath
+      ? containerJunitPath
       : localJunitPath;
-    return `${command} --log-junit ${junitPath}`;
+    return this.appendToPhpUnitRuns(command, `--log-junit ${junitPath}`);
   }
 
   addFilter(command: string, filterPattern: string): string {
@@ -24,7 +52,79 @@ export class CommandBuilder {
     const escaped = filterPattern
       .replace(/\\/g, '\\\\\\\\')
       .replace(/"/g, '\\"');
-    return `${command} --filter "${escaped}"`;
+    return this.appendToPhpUnitRuns(command, `--filter "${escaped}"`);
+  }
+
+  // Number of phpunit runs chained in the command, outside of quotes
+  countPhpUnitRuns(command: string): number {
+    return this.splitUnquoted(command, /\s*(?:&&|\|\||[;|])\s*/y).filter(
+      (part, index) => index % 2 === 0 && this.isPhpUnitRun(part),
+    ).length;
+  }
+
+  // Appends options to every phpunit run of `&&`, `||`, `;` and `|` chains,
+  // or to the end of the command when no run is found, e.g. a composer script
+  // or a quoted `sh -c "..."` argument
+  private appendToPhpUnitRuns(command: string, options: string): string {
+    const parts = this.splitUnquoted(command, /\s*(?:&&|\|\||[;|])\s*/y);
+    let found = false;
+
+    // Commands are at even indexes, separators at odd ones
+    for (let i = 0; i < parts.length; i += 2) {
+      if (this.isPhpUnitRun(parts[i]!)) {
+        parts[i] = `${parts[i]!.trimEnd()} ${options}`;
+        found = true;
+      }
+    }
+
+    return found ? parts.join('') : `${command} ${options}`;
+  }
+
+  private isPhpUnitRun(command: string): boolean {
+    return this.splitUnquoted(command.trim(), /\s+/y).some(
+      (word, index) =>
+        index % 2 === 0 && /^(?:\S*\/)?phpunit(?:\.phar)?$/.test(word),
+    );
+  }
+
+  /**
+   * Split the command at each match of the sticky `separator` that is not
+   * quoted or escaped, keeping the separators at odd indexes.
+   */
+  private splitUnquoted(command: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+
+    for (let i = 0; i < command.length; i++) {
+      const char = command[i]!;
+      if (char === '\\' && quote !== "'") {
+        i++;
+      } else if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else {
+        separator.lastIndex = i;
+        const match = separator.exec(command);
+        if (match && match[0].length > 0) {
+          parts.push(command.substring(start, i), match[0]);
+          i += match[0].length - 1;
+          start = i + 1;
+        }
+      }
+    }
+
+    parts.push(command.substring(start));
+    return parts;
+  }
+
+  // Each test in its own PHP process, for failures caused by leaked state
+  addProcessIsolation(command: string): string {
+    if (command.includes('--process-isolation')) {
+      return command;
+    }
+    return this.appendToPhpUnitRuns(command, '--process-isolation');
   }
 
   addEnvVar(command: string, name: string, value: string): string {
@@ -148,4 +248,40 @@ export class CommandBuilder {
 
     return `docker cp ${containerName}:${containerPath} ${destPath}`;
   }
+
+  /**
+   * Commands copying the reports of a run out of the container: the one added
+   * by addJUnitLogging to its local path, and those of the command's own
+   * options to the same path. Null when the container is unknown.
+   */
+  buildExtractCommands(
+    command: string,
+    addedJunit: { localJunitPath: string; containerJunitPath?: string } | null,
+    commandPaths: string[],
+  ): string[] | null {
+    const copies = commandPaths.map((reportPath) => ({
+      destPath: reportPath,
+      containerPath: reportPath,
+    }));
+    if (addedJunit) {
+      copies.unshift({
+        destPath: addedJunit.localJunitPath,
+        containerPath: addedJunit.containerJunitPath ?? this.containerJunitPath,
+      });
+    }
+
+    const extractCmds: string[] = [];
+    for (const { destPath, containerPath } of copies) {
+      const extractCmd = this.buildExtractCommand(
+        command,
+        destPath,
+        containerPath,
+      );
+      if (!extractCmd) {
+        return null;
+      }
+      extractCmds.push(extractCmd);
+    }
+    return extractCmds;
+  }
 }
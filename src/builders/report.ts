@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { encodeEntities } from '../parsers/xml.js';
+import type { TestCaseResult, TestOutcome } from '../types.js';
+
+interface SuiteTotals {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+  warnings: number;
+  time: number;
+}
+
+// Element of each outcome, as PHPUnit writes them
+const OUTCOME_ELEMENTS: Record<TestOutcome, string | null> = {
+  passed: null,
+  failed: 'failure',
+  error: 'error',
+  risky: 'error',
+  skipped: 'skipped',
+  incomplete: 'skipped',
+  warning: 'warning',
+};
+
+const TOTALS_KEYS: Record<string, keyof SuiteTotals> = {
+  failure: 'failures',
+  error: 'errors',
+  skipped: 'skipped',
+  warning: 'warnings',
+};
+
+function isFailure(testCase: TestCaseResult): boolean {
+  return testCase.outcome === 'failed' || testCase.outcome === 'error';
+}
+
+/**
+ * Combines the JUnit results of every attempt into one report with the final
+ * outcome of each test. Failures of earlier attempts are kept the way Maven
+ * Surefire reports reruns: `flakyFailure` / `flakyError` when the test passed
+ * in the end, `rerunFailure` / `rerunError` when it kept failing.
+ */
+export class JUnitReportBuilder {
+  private readonly runs = new Map<string, TestCaseResult[]>(); // In attempt order
+
+  addAttempt(testCases: TestCaseResult[]): void {
+    for (const testCase of testCases) {
+      const runs = this.runs.get(testCase.name);
+      if (runs) {
+        runs.push(testCase);
+      } else {
+        this.runs.set(testCase.name, [testCase]);
+      }
+    }
+  }
+
+  isEmpty(): boolean {
+    return this.runs.size === 0;
+  }
+
+  build(): string {
+    const suites = new Map<
+      string,
+      { file: string; cases: string[]; totals: SuiteTotals }
+    >();
+    const totals = this.emptyTotals();
+
+    for (const [name, runs] of this.runs) {
+      const className = name.split('::')[0]!;
+      let suite = suites.get(className);
+      if (!suite) {
+        suite = { file: runs[0]!.file, cases: [], totals: this.emptyTotals() };
+        suites.set(className, suite);
+      }
+
+      const { xml, element } = this.buildTestCase(className, runs);
+      suite.cases.push(xml);
+
+      for (const total of [suite.totals, totals]) {
+        const key = element ? TOTALS_KEYS[element] : undefined;
+        total.tests++;
+        total.time += runs[runs.length - 1]!.time || 0;
+        if (key) total[key]++;
+      }
+    }
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites ${this.totalsAttributes(totals)}>`,
+    ];
+    for (const [className, suite] of suites) {
+      lines.push(
+        `  <testsuite name="${encodeEntities(className, true)}" file="${encodeEntities(suite.file, true)}" ${this.totalsAttributes(suite.totals)}>`,
+        ...suite.cases,
+        '  </testsuite>',
+      );
+    }
+    lines.push('</testsuites>', '');
+
+    return lines.join('\n');
+  }
+
+  write(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, this.build());
+  }
+
+  private buildTestCase(
+    className: string,
+    runs: TestCaseResult[],
+  ): { xml: string; element: string | null } {
+    const final = runs[runs.length - 1]!;
+    const failures = runs.filter(isFailure);
+    const attributes = {
+      name: final.name.substring(className.length + 2),
+      class: className,
+      classname: className.replace(/\\/g, '.'),
+      file: final.file,
+      line: String(final.line),
+      time: (final.time || 0).toFixed(6),
+    };
+
+    // Like Surefire, a test that kept failing reports its first failure
+    const main = isFailure(final) ? failures.shift()! : final;
+    const element = OUTCOME_ELEMENTS[main.outcome];
+    const children: string[] = [];
+
+    if (element) {
+      children.push(
+        this.element(element, main, main.trace, '      '),
+        this.element('system-out', null, main.systemOut, '      '),
+        this.element('system-err', null, main.systemErr, '      '),
+      );
+    }
+
+    const rerun = final.outcome === 'passed' ? 'flaky' : 'rerun';
+    if (final.outcome === 'passed' || isFailure(final)) {
+      for (const failure of failures) {
+        const type = failure.outcome === 'failed' ? 'Failure' : 'Error';
+        children.push(
+          this.openTag(`${rerun}${type}`, failure, '      '),
+          this.element('stackTrace', null, failure.trace, '        '),
+          this.element('system-out', null, failure.systemOut, '        '),
+          this.element('system-err', null, failure.systemErr, '        '),
+          `      </${rerun}${type}>`,
+        );
+      }
+    }
+
+    const open = `    <testcase ${Object.entries(attributes)
+      .map(([key, value]) => `${key}="${encodeEntities(value, true)}"`)
+      .join(' ')}`;
+    const content = children.filter(Boolean);
+    const xml =
+      content.length > 0
+        ? [`${open}>`, ...content, '    </testcase>'].join('\n')
+        : `${open}/>`;
+
+    return { xml, element };
+  }
+
+  private openTag(
+    name: string,
+    result: TestCaseResult | null,
+    indent: string,
+  ): string {
+    let attributes = '';
+    if (result?.errorType) {
+      attributes += ` type="${encodeEntities(result.errorType, true)}"`;
+    }
+    if (result?.error) {
+      attributes += ` message="${encodeEntities(result.error, true)}"`;
+    }
+    return `${indent}<${name}${attributes}>`;
+  }
+
+  // Empty output is left out, an empty failure element is still written
+  private element(
+    name: string,
+    result: TestCaseResult | null,
+    text: string | undefined,
+    indent: string,
+  ): string {
+    if (!text && !result) return '';
+
+    const open = this.openTag(name, result, indent);
+    return text
+      ? `${open}${encodeEntities(text)}</${name}>`
+      : `${open.slice(0, -1)}/>`;
+  }
+
+  private totalsAttributes(totals: SuiteTotals): string {
+    return `tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" warnings="${totals.warnings}" time="${totals.time.toFixed(6)}"`;
+  }
+
+  private emptyTotals(): SuiteTotals {
+    return {
+      tests: 0,
+      failures: 0,
+      errors: 0,
+      skipped: 0,
+      warnings: 0,
+      time: 0,
+    };
+  }
+}
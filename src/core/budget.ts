@@ -0,0 +1,120 @@
+import type {
+  ActionInputs,
+  DroppedTest,
+  FailedTest,
+  FirstAttemptStats,
+} from '../types.js';
+
+type RetryPolicy = Pick<
+  ActionInputs,
+  'maxTestRetries' | 'dropHardFailures' | 'retryOn' | 'neverRetryOn'
+>;
+
+/**
+ * Why failures of the first attempt are too many to retry, e.g. with the
+ * database down, or null when they can be retried.
+ */
+export function checkFailureThreshold(
+  stats: FirstAttemptStats,
+  limits: Pick<ActionInputs, 'maxFailureRatio' | 'maxFailedTests'>,
+): string | null {
+  if (limits.maxFailedTests > 0 && stats.failures > limits.maxFailedTests) {
+    return `${stats.failures} tests failed, more than max_failed_tests (${limits.maxFailedTests})`;
+  }
+
+  const ratio = stats.total > 0 ? stats.failures / stats.total : 0;
+  if (ratio > limits.maxFailureRatio) {
+    return `${stats.failures} of ${stats.total} tests failed (${formatPercent(ratio)}), more than max_failure_ratio (${formatPercent(limits.maxFailureRatio)})`;
+  }
+
+  return null;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
+}
+
+/**
+ * Decides per test whether a failure is retried again, so one broken test
+ * does not use up the attempts of the others.
+ */
+export class RetryBudget {
+  private readonly policy: RetryPolicy;
+  private readonly retries = new Map<string, number>();
+  private lastErrors = new Map<string, string>(); // Failures of the previous attempt
+  private readonly dropped = new Map<string, DroppedTest>();
+
+  constructor(policy: RetryPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Split the failures of an attempt into the tests to retry and the tests
+   * dropped by this attempt. Selected tests count one retry each.
+   */
+  select(
+    failedTests: FailedTest[],
+    attempt: number,
+  ): { retry: FailedTest[]; dropped: DroppedTest[] } {
+    const retry: FailedTest[] = [];
+    const dropped: DroppedTest[] = [];
+    const errors = new Map<string, string>();
+
+    for (const test of failedTests) {
+      const error = this.getErrorSignature(test);
+      errors.set(test.name, error);
+
+      // Hard failures fail two attempts in a row with the same error
+      let reason: DroppedTest['reason'] | null = null;
+      if (!this.isRetryable(error)) {
+        reason = 'not-retryable';
+      } else if (
+        this.policy.dropHardFailures &&
+        this.lastErrors.get(test.name) === error
+      ) {
+        reason = 'hard-failure';
+      } else if (
+        this.policy.maxTestRetries > 0 &&
+        (this.retries.get(test.name) ?? 0) >= this.policy.maxTestRetries
+      ) {
+        reason = 'retry-limit';
+      }
+
+      if (reason) {
+        const droppedTest = { test, reason, attempt };
+        this.dropped.set(test.name, droppedTest);
+        dropped.push(droppedTest);
+      } else {
+        this.retries.set(test.name, (this.retries.get(test.name) ?? 0) + 1);
+        retry.push(test);
+      }
+    }
+
+    this.lastErrors = errors;
+    return { retry, dropped };
+  }
+
+  getRetries(name: string): number {
+    return this.retries.get(name) ?? 0;
+  }
+
+  getDropped(): DroppedTest[] {
+    return Array.from(this.dropped.values());
+  }
+
+  // never_retry_on wins over retry_on, which retries everything when empty
+  private isRetryable(error: string): boolean {
+    if (this.policy.neverRetryOn.some((pattern) => pattern.test(error))) {
+      return false;
+    }
+    return (
+      this.policy.retryOn.length === 0 ||
+      this.policy.retryOn.some((pattern) => pattern.test(error))
+    );
+  }
+
+  // Exception class and message, as matched by retry_on and never_retry_on
+  private getErrorSignature(test: FailedTest): string {
+    return `${test.errorType ?? ''}\n${(test.error ?? '').trim()}`;
+  }
+}
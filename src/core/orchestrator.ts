@@ -2,25 +2,47 @@ import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { spawn } from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
 import kill from 'tree-kill';
-import { JUnitParser } from '../parsers/junit.js';
+import { OutputParser } from '../parsers/output.js';
+import { ResultParser } from '../parsers/results.js';
+import { mergeReports } from '../parsers/junit.js';
 import { DependencyResolver } from '../parsers/dependency.js';
+import { ProjectIndexer } from '../parsers/project.js';
 import { CommandBuilder } from '../builders/command.js';
+import { JUnitReportBuilder } from '../builders/report.js';
+import { RetryBudget, checkFailureThreshold } from './budget.js';
 import {
   wait,
+  getRetryDelay,
   randomDelay,
   findTestFileInWorkspace,
   extractFileFromContainer,
+  findPhpUnitConfig,
+  findJUnitReports,
+  balanceGroups,
+  createLinePrefixer,
+  waitUntilHealthy,
+  isCommandHealthy,
+  isUrlHealthy,
+  runHookCommand,
   isDockerCommand,
   isDockerCompose,
 } from '../utils/helpers.js';
 import { getExecutable } from '../utils/shell.js';
+import {
+  formatDependencyGraph,
+  GRAPH_FILE_EXTENSIONS,
+} from '../utils/graph.js';
 import type {
   ActionInputs,
   FailedTest,
   AttemptStat,
+  DroppedTest,
   FirstAttemptStats,
+  JUnitReport,
   JobTestResult,
   FlakyTest,
 } from '../types.js';
@@ -36,17 +58,32 @@ import {
   MAX_COMMENT_DELAY_MS,
 } from '../utils/comments.js';
 
+const TIMEOUT_EXIT_CODE = 124; // As coreutils `timeout`
+
 export class TestRetryOrchestrator {
   private readonly inputs: ActionInputs;
-  private readonly parser: JUnitParser;
+  private readonly parser: ResultParser;
   private readonly builder: CommandBuilder;
+  private readonly reportBuilder: JUnitReportBuilder;
   private readonly resolver: DependencyResolver;
+  private readonly budget: RetryBudget;
+  private readonly containerFiles = new Map<string, string>(); // local path -> container path
+  private containerName: string | null = null;
+  private isCompose = false;
+  private index: ProjectIndexer | null = null;
+  private readonly widenedClasses = new Map<string, string>(); // class -> reason
+  private infrastructureFailure: string | null = null; // Why retries were stopped
+  private warnedUntypedFailures = false;
 
   constructor(inputs: ActionInputs) {
     this.inputs = inputs;
-    this.parser = new JUnitParser();
+    this.parser = new ResultParser(inputs.resultFormat);
     this.builder = new CommandBuilder();
-    this.resolver = new DependencyResolver();
+    this.reportBuilder = new JUnitReportBuilder();
+    this.budget = new RetryBudget(inputs);
+    this.resolver = new DependencyResolver((className, fromFile) =>
+      this.locateClassFile(className, fromFile),
+    );
   }
 
   private buildRetriedInfo(
@@ -59,7 +96,7 @@ export class TestRetryOrchestrator {
     }
 
     const prevStat = attemptStats[attemptIndex - 1]!;
-    const failedCount = prevStat.failed;
+    const failedCount = prevStat.failed - (prevStat.dropped ?? 0);
     const dependencies = stat.retried - failedCount;
 
     if (dependencies > 0) {
@@ -68,68 +105,147 @@ export class TestRetryOrchestrator {
     return ` (retried ${failedCount} tests)`;
   }
 
+  /**
+   * Parse the files of failed tests. Classes whose source is unavailable are
+   * retried whole, the others get dependency-aware filters.
+   */
   private parseDependenciesFromFailedTests(
     failedTests: FailedTest[],
     command: string,
-  ): boolean {
+  ): void {
     const uniqueFiles = new Set(failedTests.map((t) => t.file));
     const parsedFiles = new Set<string>();
     const isDocker = isDockerCommand(command);
-    const isCompose = isDockerCompose(command);
+    this.isCompose = isDockerCompose(command);
 
-    let containerName: string | null = null;
     if (isDocker) {
-      containerName = this.builder.extractContainerName(command);
-      if (!containerName) {
+      this.containerName = this.builder.extractContainerName(command);
+      if (!this.containerName) {
         core.debug('Could not extract container name from command');
       }
     }
 
+    if (this.inputs.dependencyIndex) {
+      this.buildProjectIndex();
+    }
+
     for (const test of failedTests) {
-      if (parsedFiles.has(test.file)) {
+      const className = test.name.split('::')[0]!;
+      if (parsedFiles.has(test.file) || this.widenedClasses.has(className)) {
         continue;
       }
 
-      let fullPath = findTestFileInWorkspace(test.file, this.inputs.testDir);
+      // The index knows the local file of the class even when the JUnit
+      // path is a container path
+      let fullPath =
+        this.index?.locate(className) ||
+        findTestFileInWorkspace(test.file, this.inputs.testDir);
 
       // If not found in workspace and running in Docker,
       // try extracting from container
-      if (!fullPath && isDocker && containerName) {
+      if (!fullPath && isDocker && this.containerName) {
         core.info(
           `Test file not in workspace, extracting from container: ${test.file}`,
         );
         fullPath = extractFileFromContainer(
           test.file,
-          containerName,
-          isCompose,
+          this.containerName,
+          this.isCompose,
         );
       }
 
       if (fullPath) {
+        this.containerFiles.set(fullPath, test.file);
         this.resolver.parseTestFile(fullPath);
         parsedFiles.add(test.file);
       } else {
-        core.warning(`Test file not found: ${test.file}`);
+        core.warning(
+          `Test file not found: ${test.file}. Retrying every test of ${className}.`,
+        );
+        this.widenedClasses.set(
+          className,
+          isDocker && this.containerName
+            ? `${test.file} not found in ${this.inputs.testDir} or the container`
+            : `${test.file} not found in ${this.inputs.testDir}`,
+        );
+        this.resolver.retryWholeClass(className);
       }
     }
 
-    // Only use dependency filtering if we found ALL unique test files
-    const dependenciesParsed = parsedFiles.size === uniqueFiles.size;
     core.debug(
       `Dependency parsing: ${parsedFiles.size}/${uniqueFiles.size} test files found`,
     );
+  }
 
-    if (!dependenciesParsed) {
+  /**
+   * Parse every test file of the phpunit.xml test suites, so dependencies on
+   * tests in other files resolve even when those tests passed.
+   */
+  private buildProjectIndex(): void {
+    const configPath = findPhpUnitConfig(this.inputs.phpunitConfig);
+    if (!configPath) {
       core.warning(
-        `Found ${parsedFiles.size}/${uniqueFiles.size} test files. Will run full test suite on retry.`,
-      );
-    } else {
-      core.debug(
-        'All test files found. Will use dependency filtering on retry.',
+        'No phpunit.xml or phpunit.xml.dist found, skipping dependency index',
       );
+      return;
+    }
+
+    const index = new ProjectIndexer();
+    try {
+      index.load(configPath);
+    } catch (error) {
+      core.warning(`Failed to index ${configPath}: ${error}`);
+      return;
     }
 
-    return dependenciesParsed;
+    this.index = index;
+    const testFiles = index.getTestFiles();
+    for (const file of testFiles) {
+      this.resolver.parseTestFile(file);
+    }
+
+    core.info(`Indexed ${testFiles.length} test files from ${configPath}`);
+  }
+
+  /**
+   * Locate the source of a parent class or trait referenced by a parsed test
+   * file: first in the project index, then in the workspace test directory,
+   * then next to the referencing file inside the container.
+   */
+  private locateClassFile(className: string, fromFile: string): string | null {
+    const indexed = this.index?.locate(className);
+    if (indexed) {
+      return indexed;
+    }
+
+    const shortName = className.split('\\').pop()!;
+    const fullPath = findTestFileInWorkspace(
+      `${className.replace(/\\/g, '/')}.php`,
+      this.inputs.testDir,
+    );
+    if (fullPath) {
+      return fullPath;
+    }
+
+    const containerFile = this.containerFiles.get(fromFile);
+    if (!containerFile || !this.containerName) {
+      return null;
+    }
+
+    const containerPath = path.posix.join(
+      path.posix.dirname(containerFile),
+      `${shortName}.php`,
+    );
+    const extracted = extractFileFromContainer(
+      containerPath,
+      this.containerName,
+      this.isCompose,
+    );
+    if (extracted) {
+      this.containerFiles.set(extracted, containerPath);
+    }
+
+    return extracted;
   }
 
   private async extractJUnitFromDocker(
@@ -164,9 +280,12 @@ export class TestRetryOrchestrator {
   private async executeTestCommand(
     command: string,
     executable: string,
+    output: OutputParser | null = null,
+    env?: NodeJS.ProcessEnv,
+    prefix?: string, // Prepended to every output line
   ): Promise<number> {
     return new Promise<number>((resolve, reject) => {
-      const child = spawn(command, { shell: executable });
+      const child = spawn(command, { shell: executable, env });
       let timedOut = false;
       let exitCode: number | null = null;
 
@@ -195,12 +314,20 @@ export class TestRetryOrchestrator {
         );
       });
 
+      const decoder = new StringDecoder('utf8');
+      const stdoutPrefixer = prefix ? createLinePrefixer(prefix) : null;
       child.stdout?.on('data', (data) => {
-        process.stdout.write(data);
+        const text = decoder.write(data);
+        process.stdout.write(stdoutPrefixer ? stdoutPrefixer(text) : data);
+        output?.write(text);
       });
 
+      const stderrDecoder = new StringDecoder('utf8');
+      const stderrPrefixer = prefix ? createLinePrefixer(prefix) : null;
       child.stderr?.on('data', (data) => {
-        process.stdout.write(data);
+        process.stdout.write(
+          stderrPrefixer ? stderrPrefixer(stderrDecoder.write(data)) : data,
+        );
       });
 
       child.on('exit', (code) => {
@@ -210,13 +337,14 @@ export class TestRetryOrchestrator {
       // Wait for 'close' event - this ensures all stdio streams are flushed
       child.on('close', () => {
         if (timeout) clearTimeout(timeout);
+        if (stdoutPrefixer && stderrPrefixer) {
+          process.stdout.write(stdoutPrefixer(decoder.end(), true));
+          process.stdout.write(stderrPrefixer(stderrDecoder.end(), true));
+        }
 
         if (timedOut) {
-          reject(
-            new Error(
-              `Command timed out after ${this.inputs.timeoutMinutes} minute(s)`,
-            ),
-          );
+          // Fail the attempt but keep the results written before the kill
+          resolve(TIMEOUT_EXIT_CODE);
         } else {
           resolve(exitCode || 0);
         }
@@ -224,6 +352,72 @@ export class TestRetryOrchestrator {
     });
   }
 
+  // Only JUnit reports name the exception class of assertion failures
+  private warnUntypedFailures(failedTests: FailedTest[]): void {
+    const { retryOn, neverRetryOn } = this.inputs;
+    if (
+      this.warnedUntypedFailures ||
+      (retryOn.length === 0 && neverRetryOn.length === 0)
+    ) {
+      return;
+    }
+
+    const untyped = failedTests.filter((test) => !test.errorType).length;
+    if (untyped > 0) {
+      core.warning(
+        `${untyped} failure(s) have no exception class in the test results, retry_on and never_retry_on only match their message`,
+      );
+      this.warnedUntypedFailures = true;
+    }
+  }
+
+  // Run a hook when it is configured, false when retries should stop
+  private async runHook(
+    input: 'before_retry_command' | 'after_attempt_command',
+    command: string | undefined,
+    attempt: number,
+    exitCode: number,
+    tests: FailedTest[],
+  ): Promise<boolean> {
+    if (!command) {
+      return true;
+    }
+
+    return runHookCommand(
+      input,
+      command,
+      { attempt, exitCode, tests },
+      {
+        executable: getExecutable(this.inputs.shell),
+        hookFailure: this.inputs.hookFailure,
+        timeoutMs: this.inputs.timeoutMinutes * 60 * 1000,
+      },
+    );
+  }
+
+  // Retrying while services under test restart only repeats the failures
+  private async waitForHealthyEnvironment(): Promise<boolean> {
+    const { healthCheckCommand, healthCheckUrl } = this.inputs;
+    if (!healthCheckCommand && !healthCheckUrl) {
+      return true;
+    }
+
+    core.info('Waiting for the environment to become healthy');
+    const executable = getExecutable(this.inputs.shell);
+    return waitUntilHealthy(
+      async (timeLeftMs) =>
+        (!healthCheckCommand ||
+          (await isCommandHealthy(
+            healthCheckCommand,
+            executable,
+            timeLeftMs,
+          ))) &&
+        (!healthCheckUrl || (await isUrlHealthy(healthCheckUrl, timeLeftMs))),
+      this.inputs.healthCheckTimeoutSeconds * 1000,
+      this.inputs.healthCheckIntervalSeconds * 1000,
+    );
+  }
+
   private async fetchJobId(jobName: string): Promise<string | undefined> {
     if (this.inputs.jobId) {
       // user provided
@@ -403,6 +597,103 @@ export class TestRetryOrchestrator {
     }
   }
 
+  /**
+   * Annotate cycles and dangling `@depends` targets, which make PHPUnit skip
+   * the dependent tests instead of running them.
+   */
+  // Annotate problems of the test files parsed for failed tests, and return
+  // how many were found
+  private reportDependencyDiagnostics(): number {
+    const diagnostics = this.resolver.diagnose();
+    core.setOutput('dependency_diagnostics', JSON.stringify(diagnostics));
+
+    if (diagnostics.length === 0) {
+      return 0;
+    }
+
+    const fail = this.inputs.failOnInvalidDependencies;
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+
+    for (const diagnostic of diagnostics) {
+      const relative = diagnostic.file
+        ? path.relative(workspace, diagnostic.file)
+        : '';
+      const inWorkspace = relative && !relative.startsWith('..');
+      const properties: core.AnnotationProperties = {
+        title: 'Invalid test dependency',
+        ...(inWorkspace && { file: relative, startLine: diagnostic.line }),
+      };
+
+      if (fail) {
+        core.error(diagnostic.message, properties);
+      } else {
+        core.warning(diagnostic.message, properties);
+      }
+    }
+
+    return diagnostics.length;
+  }
+
+  private async writeDependencyGraph(
+    failedTests: FailedTest[],
+    flakyTests: FlakyTest[],
+  ): Promise<void> {
+    const format = this.inputs.dependencyGraph;
+    if (format === 'none') {
+      return;
+    }
+
+    const graph = this.resolver.buildDependencyGraph(failedTests, flakyTests);
+    const content = formatDependencyGraph(graph, format);
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+    const graphPath = path.join(
+      workspace,
+      `phpunit-dependency-graph.${GRAPH_FILE_EXTENSIONS[format]}`,
+    );
+
+    try {
+      fs.writeFileSync(graphPath, content);
+      core.info(`Dependency graph written to ${graphPath}`);
+      core.setOutput('dependency_graph_path', graphPath);
+    } catch (error) {
+      core.warning(`Failed to write dependency graph: ${error}`);
+      return;
+    }
+
+    if (format === 'mermaid' && process.env.GITHUB_STEP_SUMMARY) {
+      try {
+        await core.summary
+          .addHeading('Test dependencies', 3)
+          .addRaw(`\n\`\`\`mermaid\n${content}\n\`\`\`\n`, true)
+          .write();
+      } catch (error) {
+        core.debug(`Failed to write job summary: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Every test with its final outcome, as the last report only holds the
+   * tests of the last retry
+   */
+  private writeMergedReport(): void {
+    const reportPath = this.inputs.mergedJunitPath;
+    if (!reportPath || this.reportBuilder.isEmpty()) {
+      return;
+    }
+
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+    const fullPath = path.resolve(workspace, reportPath);
+
+    try {
+      this.reportBuilder.write(fullPath);
+      core.info(`Merged JUnit report written to ${fullPath}`);
+      core.setOutput('merged_junit_path', fullPath);
+    } catch (error) {
+      core.warning(`Failed to write merged JUnit report: ${error}`);
+    }
+  }
+
   private displayTestSummary(
     exitCode: number,
     attempt: number,
@@ -413,7 +704,17 @@ export class TestRetryOrchestrator {
     core.info('='.repeat(60));
     if (firstAttemptStats) {
       const totalStr = String(firstAttemptStats.total).padStart(2, '0');
-      core.info(`${totalStr} total tests`);
+      const outcomes = [
+        [firstAttemptStats.skipped, 'skipped'],
+        [firstAttemptStats.incomplete, 'incomplete'],
+        [firstAttemptStats.risky, 'risky'],
+        [firstAttemptStats.warnings, 'with warnings'],
+      ]
+        .filter(([count]) => count)
+        .map(([count, label]) => `${count} ${label}`);
+      const outcomesInfo =
+        outcomes.length > 0 ? ` (${outcomes.join(', ')})` : '';
+      core.info(`${totalStr} total tests${outcomesInfo}`);
 
       for (
         let attemptIndex = 0;
@@ -446,14 +747,59 @@ export class TestRetryOrchestrator {
       }
     }
 
-    const statusIcon = exitCode === 0 ? '✓' : '✗';
-    const statusText = exitCode === 0 ? 'passed' : 'failed';
+    if (this.widenedClasses.size > 0) {
+      core.info('Retried whole classes, dependencies could not be resolved:');
+      for (const [className, reason] of this.widenedClasses) {
+        core.info(`  - ${className} (${reason})`);
+      }
+    }
+
+    const dropped = this.budget.getDropped();
+    const notRetryable = dropped.filter(
+      ({ reason }) => reason === 'not-retryable',
+    );
+    const stopped = dropped.filter(({ reason }) => reason !== 'not-retryable');
+    if (notRetryable.length > 0) {
+      core.info('Not retried, excluded by retry_on/never_retry_on:');
+      for (const { test } of notRetryable) {
+        core.info(`  - ${test.name} (${test.errorType || 'failure'})`);
+      }
+    }
+    if (stopped.length > 0) {
+      core.info('Stopped retrying:');
+      for (const droppedTest of stopped) {
+        core.info(
+          `  - ${droppedTest.test.name} (${this.describeDroppedTest(droppedTest)})`,
+        );
+      }
+    }
+
+    if (this.infrastructureFailure) {
+      core.info(
+        `Retries stopped, likely an infrastructure failure: ${this.infrastructureFailure}`,
+      );
+    }
+
+    const passed = exitCode === 0 && dropped.length === 0;
+    const statusIcon = passed ? '✓' : '✗';
+    const statusText = passed ? 'passed' : 'failed';
     core.info(
       `${statusIcon} Test suite ${statusText} after ${attempt} attempt(s)`,
     );
     core.info('='.repeat(60));
   }
 
+  private describeDroppedTest({ test, reason, attempt }: DroppedTest): string {
+    switch (reason) {
+      case 'not-retryable':
+        return 'error excluded by retry_on/never_retry_on';
+      case 'hard-failure':
+        return `hard failure, same error on attempts ${attempt - 1} and ${attempt}`;
+      case 'retry-limit':
+        return `retried ${this.budget.getRetries(test.name)} times`;
+    }
+  }
+
   public async run(): Promise<void> {
     core.debug(
       `Inputs: max_attempts=${this.inputs.maxAttempts}, retry_wait=${this.inputs.retryWaitSeconds}s, test_dir=${this.inputs.testDir}`,
@@ -463,112 +809,324 @@ export class TestRetryOrchestrator {
     let exitCode = 0;
     let failedTests: FailedTest[] = [];
     let previousFailedTests: FailedTest[] = []; // Track previous attempt's failures
-    let dependenciesParsed = false;
+    let retriedTests: FailedTest[] = []; // Failures still within their retry budget
+    let skippedTests: FailedTest[] = []; // Skipped because a dependency failed
     let firstAttemptStats: FirstAttemptStats | null = null;
     let attemptStats: AttemptStat[] = [];
     const testAttemptCounts = new Map<string, number>(); // Track attempts per test
     const testCumulativeTiming = new Map<string, number>(); // Track cumulative time per test
+    let retryDelayMs = this.inputs.retryWaitSeconds * 1000;
 
     // Use absolute path for JUnit XML to handle commands that change directories
     // Falls back to current directory if GITHUB_WORKSPACE is not set (for local testing)
     const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
     const defaultLocalJunitPath = path.join(workspace, 'phpunit-junit.xml');
 
-    const existingJunitPath = this.builder.extractJUnitPath(
+    // Paths of --log-junit options already in the command, all merged
+    const commandJunitPaths = this.builder.extractJUnitPaths(
       this.inputs.command,
     );
-    const localJunitPath = existingJunitPath || defaultLocalJunitPath;
+    const commandLogPaths = this.builder.extractEventLogPaths(
+      this.inputs.command,
+    );
+    const userJunitPaths = this.inputs.junitPaths;
 
-    if (existingJunitPath) {
+    if (commandJunitPaths.length > 0) {
       core.info(
-        `Detected existing --log-junit in command, using path: ${existingJunitPath}`,
+        `Detected existing --log-junit in command, using path: ${commandJunitPaths.join(', ')}`,
+      );
+    }
+    if (commandLogPaths.length > 0) {
+      core.info(
+        `Detected event logs in command, used when JUnit XML is missing: ${commandLogPaths.join(', ')}`,
+      );
+    }
+    if (userJunitPaths.length > 0) {
+      core.info(`Reading JUnit reports from: ${userJunitPaths.join(', ')}`);
+    }
+
+    // Service messages are read from the output like parse_output does
+    const parsesOutput =
+      this.inputs.parseOutput ||
+      this.builder.hasTeamCityOutput(this.inputs.command);
+    if (parsesOutput && !this.inputs.parseOutput) {
+      core.info(
+        'Detected --teamcity in command, its output is used when no report is written',
+      );
+    }
+
+    // The command writes its own reports, either with --log-junit options
+    // or as configured in phpunit.xml, and adding --log-junit would override them
+    const addsJunitLogging =
+      commandJunitPaths.length === 0 && userJunitPaths.length === 0;
+    if (
+      addsJunitLogging &&
+      this.builder.countPhpUnitRuns(this.inputs.command) > 1
+    ) {
+      // Runs of a chain would overwrite the report of the run before
+      throw new Error(
+        'The command runs PHPUnit more than once: add --log-junit <path> to each run, or set junit_path',
+      );
+    }
+    const resultPaths = [
+      ...(addsJunitLogging ? [defaultLocalJunitPath] : commandJunitPaths),
+      ...commandLogPaths,
+      ...userJunitPaths,
+    ];
+
+    // Reports added by the action and their copies, always JUnit
+    const actionJunitPaths = new Set<string>();
+
+    // Parallel runs need their own report paths, set by the action
+    const retryWorkers =
+      addsJunitLogging && commandLogPaths.length === 0
+        ? this.inputs.retryWorkers
+        : 1;
+    if (this.inputs.retryWorkers > 1 && retryWorkers === 1) {
+      core.warning(
+        'retry_workers is ignored when the command writes its own reports (--log-junit, junit_path or event logs), retries run one at a time',
       );
     }
 
+    // Run PHPUnit once, on a numbered worker for parallel retries, and find
+    // the reports it wrote
+    const runCommand = async (
+      filterPattern: string | null,
+      executable: string,
+      output: OutputParser | null,
+      worker = 0,
+    ): Promise<{ exitCode: number; reportPaths: string[] }> => {
+      const localJunitPath = worker
+        ? path.join(workspace, `phpunit-junit-${worker}.xml`)
+        : defaultLocalJunitPath;
+      const containerJunitPath = worker
+        ? `/tmp/phpunit-junit-${worker}.xml`
+        : undefined;
+
+      let command = this.inputs.command;
+      if (filterPattern !== null) {
+        command = this.builder.addFilter(command, filterPattern);
+        if (this.inputs.retryIsolation === 'process') {
+          command = this.builder.addProcessIsolation(command);
+        }
+      }
+
+      if (addsJunitLogging) {
+        command = this.builder.addJUnitLogging(
+          command,
+          localJunitPath,
+          containerJunitPath,
+        );
+        actionJunitPaths.add(localJunitPath);
+        if (fs.existsSync(localJunitPath)) {
+          fs.unlinkSync(localJunitPath);
+        }
+      }
+
+      command = this.builder.addEnvVar(
+        command,
+        'PHPUNIT_RETRY_ATTEMPT',
+        attempt.toString(),
+      );
+      if (worker) {
+        command = this.builder.addEnvVar(
+          command,
+          'PHPUNIT_RETRY_WORKER',
+          worker.toString(),
+        );
+      }
+
+      const startedAt = Date.now();
+      const exitCode = await this.executeTestCommand(
+        command,
+        executable,
+        output,
+        worker
+          ? { ...process.env, PHPUNIT_RETRY_WORKER: worker.toString() }
+          : undefined,
+        worker ? `[worker ${worker}] ` : undefined,
+      );
+
+      core.debug(`Command exited with code: ${exitCode}`);
+
+      if (isDockerCommand(command)) {
+        // Reports from junit_path are expected in a mounted workspace
+        const extractCmds = this.builder.buildExtractCommands(
+          command,
+          addsJunitLogging ? { localJunitPath, containerJunitPath } : null,
+          [...(addsJunitLogging ? [] : commandJunitPaths), ...commandLogPaths],
+        );
+        if (extractCmds) {
+          for (const extractCmd of extractCmds) {
+            await this.extractJUnitFromDocker(extractCmd, executable);
+          }
+        } else {
+          core.warning(
+            'Could not extract container name from command, JUnit XML extraction skipped',
+          );
+        }
+      }
+
+      return {
+        exitCode,
+        reportPaths: findJUnitReports(
+          worker ? [localJunitPath] : resultPaths,
+          startedAt,
+        ),
+      };
+    };
+
     while (attempt <= this.inputs.maxAttempts) {
       core.startGroup(`Attempt ${attempt}`);
 
       let testsRetriedThisAttempt = 0;
 
       try {
-        if (!existingJunitPath && fs.existsSync(localJunitPath)) {
-          fs.unlinkSync(localJunitPath);
-        }
+        // One filter per PHPUnit run, none on the first attempt
+        let filterPatterns: string[] = [];
+
+        if (attempt > 1) {
+          const retryTests = [...retriedTests, ...skippedTests];
+          let groups = [retryTests];
+          if (this.inputs.retryIsolation === 'groups' || retryWorkers > 1) {
+            groups = this.resolver.groupByDependencies(retryTests);
+            if (this.inputs.retryIsolation !== 'groups') {
+              groups = balanceGroups(groups, retryWorkers);
+            }
+          }
+          filterPatterns = groups.map((group) =>
+            this.resolver.buildFilterPattern(group),
+          );
+          const testsToRun = filterPatterns.reduce(
+            (sum, pattern) => sum + (pattern ? pattern.split('|').length : 0),
+            0,
+          );
+          testsRetriedThisAttempt = testsToRun;
 
-        let command = this.inputs.command;
+          const tree = this.resolver.buildDependencyTree(retryTests);
+          if (tree) {
+            core.info('Dependency analysis:');
+            core.info(tree);
+            core.info('');
+          }
 
-        if (attempt === 1) {
-          command = this.builder.addJUnitLogging(
-            command,
-            defaultLocalJunitPath,
+          const widened = retryTests.filter((test) =>
+            this.widenedClasses.has(test.name.split('::')[0]!),
           );
-        } else {
-          // If dependencies couldn't be parsed, run full suite as fallback
-          if (!dependenciesParsed) {
-            core.warning(
-              `Could not parse dependencies on first attempt - retrying all tests`,
-            );
-            command = this.builder.addJUnitLogging(
-              command,
-              defaultLocalJunitPath,
+          if (widened.length > 0) {
+            core.info(
+              `${widened.length} test(s) retried with their whole class (source unavailable)`,
             );
-            testsRetriedThisAttempt = firstAttemptStats?.total || 0;
-          } else {
-            const filterPattern = this.resolver.buildFilterPattern(failedTests);
-            const testsToRun = filterPattern
-              ? filterPattern.split('|').length
-              : 0;
-            testsRetriedThisAttempt = testsToRun;
-
-            const tree = this.resolver.buildDependencyTree(failedTests);
-            if (tree) {
-              core.info('Dependency analysis:');
-              core.info(tree);
-              core.info('');
-            }
+          }
 
+          const skippedInfo =
+            skippedTests.length > 0
+              ? `, ${skippedTests.length} skipped dependent(s)`
+              : '';
+          core.info(
+            `Retrying ${retriedTests.length} failed test(s)${skippedInfo} + dependencies (${testsToRun} total)`,
+          );
+          if (groups.length > 1) {
+            const workersInfo =
+              retryWorkers > 1
+                ? ` on ${Math.min(retryWorkers, groups.length)} parallel workers`
+                : ' separately';
             core.info(
-              `Retrying ${failedTests.length} failed test(s) + dependencies (${testsToRun} total)`,
-            );
-            core.debug(`Filter pattern includes ${testsToRun} test(s)`);
-            command = this.builder.addFilter(command, filterPattern);
-            command = this.builder.addJUnitLogging(
-              command,
-              defaultLocalJunitPath,
+              `Running ${groups.length} independent dependency groups${workersInfo}`,
             );
           }
+          core.debug(`Filter pattern includes ${testsToRun} test(s)`);
         }
 
-        command = this.builder.addEnvVar(
-          command,
-          'PHPUNIT_RETRY_ATTEMPT',
-          attempt.toString(),
-        );
-
         const executable = getExecutable(this.inputs.shell);
         core.debug(`Executing command with shell: ${executable}`);
 
-        exitCode = await this.executeTestCommand(command, executable);
-
-        core.debug(`Command exited with code: ${exitCode}`);
+        // One parser per run, parallel runs interleave their output
+        const outputs: OutputParser[] = [];
+        const createOutput = () => {
+          if (!parsesOutput) {
+            return null;
+          }
+          const output = new OutputParser();
+          outputs.push(output);
+          return output;
+        };
+
+        let reportPaths: string[] = [];
+        if (filterPatterns.length <= 1) {
+          ({ exitCode, reportPaths } = await runCommand(
+            filterPatterns[0] ?? null,
+            executable,
+            createOutput(),
+          ));
+        } else {
+          // Each run overwrites the reports of the one before, keep copies
+          const reportsDir = fs.mkdtempSync(
+            path.join(os.tmpdir(), 'phpunit-retry-'),
+          );
+          const written = new Map<string, number>(); // Report path -> mtime
+          const groupResults: string[] = [];
+          const workers = Math.min(retryWorkers, filterPatterns.length);
+          let nextGroup = 0;
+          exitCode = 0;
+
+          const runGroups = async (worker: number) => {
+            while (nextGroup < filterPatterns.length) {
+              const group = nextGroup++;
+              const workerInfo = worker ? ` on worker ${worker}` : '';
+              core.info(
+                `Dependency group ${group + 1} of ${filterPatterns.length}${workerInfo}`,
+              );
+              const result = await runCommand(
+                filterPatterns[group]!,
+                executable,
+                createOutput(),
+                worker,
+              );
+              exitCode ||= result.exitCode;
+              groupResults[group] =
+                `group ${group + 1}${workerInfo}: exit code ${result.exitCode}`;
+
+              for (const reportPath of result.reportPaths) {
+                const mtime = fs.statSync(reportPath).mtimeMs;
+                if (written.get(reportPath) === mtime) {
+                  continue; // Left over from an earlier group
+                }
+                written.set(reportPath, mtime);
+
+                const copyPath = path.join(
+                  reportsDir,
+                  `${reportPaths.length + 1}-${path.basename(reportPath)}`,
+                );
+                fs.copyFileSync(reportPath, copyPath);
+                reportPaths.push(copyPath);
+                if (actionJunitPaths.has(reportPath)) {
+                  actionJunitPaths.add(copyPath);
+                }
+              }
+            }
+          };
 
-        if (isDockerCommand(command)) {
-          const containerJunitPath = existingJunitPath || undefined;
-          const extractCmd = this.builder.buildExtractCommand(
-            command,
-            existingJunitPath || defaultLocalJunitPath,
-            containerJunitPath,
+          await Promise.all(
+            Array.from({ length: workers }, (_, index) =>
+              runGroups(workers > 1 ? index + 1 : 0),
+            ),
           );
-          if (extractCmd) {
-            await this.extractJUnitFromDocker(extractCmd, executable);
-          } else {
-            core.warning(
-              'Could not extract container name from command, JUnit XML extraction skipped',
-            );
+
+          core.info('Dependency groups:');
+          for (const groupResult of groupResults) {
+            core.info(`  - ${groupResult}`);
           }
         }
 
         if (exitCode === 0) {
+          if (this.inputs.mergedJunitPath && reportPaths.length > 0) {
+            this.reportBuilder.addAttempt(
+              this.parser.parseReports(reportPaths, [...actionJunitPaths])
+                .testCases,
+            );
+          }
+
           failedTests = [];
           // Track successful attempt
           attemptStats.push({
@@ -576,15 +1134,66 @@ export class TestRetryOrchestrator {
             failed: 0,
             retried: testsRetriedThisAttempt,
           });
+          await this.runHook(
+            'after_attempt_command',
+            this.inputs.afterAttemptCommand,
+            attempt,
+            exitCode,
+            [],
+          );
           break;
         }
 
-        if (!fs.existsSync(localJunitPath)) {
+        let report: JUnitReport;
+        if (reportPaths.length > 0) {
+          if (reportPaths.length > 1) {
+            core.info(`Merging ${reportPaths.length} test reports`);
+            core.debug(`Test reports: ${reportPaths.join(', ')}`);
+          }
+
+          report = this.parser.parseReports(reportPaths, [...actionJunitPaths]);
+          if (report.stats.total > report.testCases.length) {
+            core.warning(
+              `Only ${report.testCases.length} of ${report.stats.total} tests reported a result, the others did not run and are not retried`,
+            );
+          }
+        } else if (outputs.length > 0) {
+          core.info(
+            'No test report found, using the results printed by the command',
+          );
+          report = mergeReports(outputs.map((output) => output.end()));
+
+          for (const className of outputs.flatMap((output) =>
+            Array.from(output.approximateClasses),
+          )) {
+            if (!this.widenedClasses.has(className)) {
+              this.widenedClasses.set(
+                className,
+                'test names taken from --testdox output',
+              );
+              this.resolver.retryWholeClass(className);
+            }
+          }
+        } else {
           core.warning('JUnit XML not found, cannot parse failures');
+          await this.runHook(
+            'after_attempt_command',
+            this.inputs.afterAttemptCommand,
+            attempt,
+            exitCode,
+            [],
+          );
           break;
         }
 
-        failedTests = this.parser.parseXMLFile(localJunitPath);
+        const testCases = report.testCases;
+        if (this.inputs.mergedJunitPath) {
+          this.reportBuilder.addAttempt(testCases);
+        }
+        failedTests = testCases.filter(
+          (testCase) =>
+            testCase.outcome === 'failed' || testCase.outcome === 'error',
+        );
 
         // Track attempt count and cumulative timing for each failed test
         for (const test of failedTests) {
@@ -596,7 +1205,7 @@ export class TestRetryOrchestrator {
         }
 
         if (attempt === 1) {
-          firstAttemptStats = this.parser.getTestStats(localJunitPath);
+          firstAttemptStats = report.stats;
         }
 
         // Track stats for this attempt
@@ -606,15 +1215,38 @@ export class TestRetryOrchestrator {
           retried: testsRetriedThisAttempt,
         });
 
+        const afterHookPassed = await this.runHook(
+          'after_attempt_command',
+          this.inputs.afterAttemptCommand,
+          attempt,
+          exitCode,
+          failedTests,
+        );
+        if (!afterHookPassed) {
+          break;
+        }
+
         if (failedTests.length === 0) {
           core.warning('Tests failed but no specific failures in JUnit XML');
           break;
         }
 
         if (attempt === 1) {
-          dependenciesParsed = this.parseDependenciesFromFailedTests(
+          // A broken environment fails most tests, retrying them only takes time
+          this.infrastructureFailure = checkFailureThreshold(
+            report.stats,
+            this.inputs,
+          );
+          if (this.infrastructureFailure) {
+            core.warning(
+              `Not retrying, the environment looks broken: ${this.infrastructureFailure}`,
+            );
+            break;
+          }
+
+          this.parseDependenciesFromFailedTests(
             failedTests,
-            command,
+            this.inputs.command,
           );
         }
 
@@ -622,12 +1254,69 @@ export class TestRetryOrchestrator {
           break;
         }
 
+        this.warnUntypedFailures(failedTests);
+        const selection = this.budget.select(failedTests, attempt);
+        for (const droppedTest of selection.dropped) {
+          core.info(
+            `Not retrying ${droppedTest.test.name}: ${this.describeDroppedTest(droppedTest)}`,
+          );
+        }
+        attemptStats[attemptStats.length - 1]!.dropped =
+          selection.dropped.length;
+        retriedTests = selection.retry;
+        if (retriedTests.length === 0) {
+          core.info('No failed tests left to retry');
+          break;
+        }
+
+        // Retry candidates, but never flaky: they did not fail on their own
+        skippedTests = this.resolver.findDependencySkips(
+          testCases.filter((testCase) => testCase.outcome === 'skipped'),
+          retriedTests,
+        );
+        if (skippedTests.length > 0) {
+          core.info(
+            `${skippedTests.length} test(s) skipped because a dependency failed`,
+          );
+        }
+
         // Save current failures
-        previousFailedTests = [...failedTests];
+        previousFailedTests = [...retriedTests];
 
+        retryDelayMs = getRetryDelay(
+          this.inputs.retryBackoff,
+          attempt,
+          this.inputs.retryWaitSeconds * 1000,
+          this.inputs.retryMaxWaitSeconds * 1000,
+          retryDelayMs,
+        );
+        const backoffInfo =
+          this.inputs.retryBackoff === 'fixed'
+            ? ''
+            : ` (${this.inputs.retryBackoff} backoff)`;
         core.info('');
-        core.info(`Waiting ${this.inputs.retryWaitSeconds}s before retry...`);
-        await wait(this.inputs.retryWaitSeconds * 1000);
+        core.info(
+          `Waiting ${Math.round(retryDelayMs / 100) / 10}s before retry${backoffInfo}...`,
+        );
+        await wait(retryDelayMs);
+
+        // Reset state (caches, queues, databases) the failures may have left
+        const beforeHookPassed = await this.runHook(
+          'before_retry_command',
+          this.inputs.beforeRetryCommand,
+          attempt + 1,
+          exitCode,
+          [...retriedTests, ...skippedTests],
+        );
+        if (!beforeHookPassed) {
+          break;
+        }
+
+        if (!(await this.waitForHealthyEnvironment())) {
+          this.infrastructureFailure = `environment never became healthy within ${this.inputs.healthCheckTimeoutSeconds}s`;
+          core.warning(`Not retrying, the ${this.infrastructureFailure}`);
+          break;
+        }
       } catch (attemptError) {
         throw attemptError;
       } finally {
@@ -638,6 +1327,19 @@ export class TestRetryOrchestrator {
     }
 
     this.displayTestSummary(exitCode, attempt, firstAttemptStats, attemptStats);
+    this.writeMergedReport();
+    const invalidDependencies = this.reportDependencyDiagnostics();
+
+    // Tests no longer retried still failed, even when the last retry passed
+    const lastFailedNames = new Set(failedTests.map((t) => t.name));
+    const dropped = this.budget.getDropped();
+    failedTests = [
+      ...failedTests,
+      ...dropped
+        .map(({ test }) => test)
+        .filter((test) => !lastFailedNames.has(test.name)),
+    ];
+    const passed = exitCode === 0 && failedTests.length === 0;
 
     // Detect flaky tests:
     // tests that failed on previous attempts but passed on final attempt
@@ -657,6 +1359,10 @@ export class TestRetryOrchestrator {
       }
     }
 
+    if (failedTests.length > 0 || flakyTests.length > 0) {
+      await this.writeDependencyGraph(failedTests, flakyTests);
+    }
+
     // Post PR comment with test summary
     const totalRetried = attemptStats.reduce(
       (sum, stat) => sum + stat.retried,
@@ -677,10 +1383,38 @@ export class TestRetryOrchestrator {
       'failed_tests',
       JSON.stringify(failedTests.map((t) => t.name)),
     );
-    core.setOutput('success', exitCode === 0 ? 'true' : 'false');
+    core.setOutput('success', passed ? 'true' : 'false');
+    core.setOutput(
+      'infrastructure_failure',
+      this.infrastructureFailure ? 'true' : 'false',
+    );
+    for (const [output, reason] of [
+      ['hard_failures', 'hard-failure'],
+      ['non_retryable_tests', 'not-retryable'],
+    ] as const) {
+      core.setOutput(
+        output,
+        JSON.stringify(
+          dropped
+            .filter((droppedTest) => droppedTest.reason === reason)
+            .map(({ test }) => test.name),
+        ),
+      );
+    }
 
-    if (exitCode !== 0) {
+    if (this.infrastructureFailure) {
+      core.setFailed(
+        `Tests failed, retries stopped: ${this.infrastructureFailure}`,
+      );
+    } else if (!passed) {
       core.setFailed(`Tests failed after ${attempt} attempts`);
+    } else if (
+      invalidDependencies > 0 &&
+      this.inputs.failOnInvalidDependencies
+    ) {
+      core.setFailed(
+        `Invalid test dependencies: ${invalidDependencies} problem(s) found`,
+      );
     }
   }
 }
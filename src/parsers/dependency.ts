@@ -1,49 +1,380 @@
+import * as core from '@actions/core';
 import * as fs from 'fs';
-import type { FailedTest } from '../types.js';
+import * as path from 'path';
+import { PhpSourceScanner } from './php.js';
+import type {
+  DependencyDiagnostic,
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphNode,
+  FailedTest,
+  FlakyTest,
+  PhpAttribute,
+  PhpMethod,
+  TestClassDeclaration,
+  TestMethodDeclaration,
+} from '../types.js';
+
+/**
+ * Locates the source file of a fully qualified class name referenced from
+ * `fromFile` (e.g. a parent class or a trait), or returns null.
+ */
+export type ClassLocator = (
+  className: string,
+  fromFile: string,
+) => string | null;
 
 export class DependencyResolver {
   private dependencyMap = new Map<string, string[]>();
+  private declarations = new Map<string, TestClassDeclaration | null>();
+  private parsedClasses = new Set<string>(); // Classes whose tests are known
+  private tests = new Map<string, { file: string; line: number }>(); // Test => declaration
+  private wholeClasses = new Set<string>(); // Classes retried with every test
+  private readonly scanner = new PhpSourceScanner();
+  private readonly locateClass?: ClassLocator;
+
+  constructor(locateClass?: ClassLocator) {
+    this.locateClass = locateClass;
+  }
 
   parseTestFile(filePath: string): void {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    for (const declaration of this.parseDeclarations(filePath)) {
+      this.declarations.set(declaration.name, declaration);
+      this.parsedClasses.add(declaration.name);
+
+      // Inherited and trait-provided tests run as tests of the concrete class,
+      // so same-class dependencies resolve against the concrete class too.
+      const methods = this.collectMethods(declaration, new Set());
+      for (const [methodName, { method, file }] of methods) {
+        const key = `${declaration.name}::${methodName}`;
+        this.tests.set(key, { file, line: method.line });
+
+        if (method.dependencies.length === 0) continue;
+
+        this.dependencyMap.set(
+          key,
+          method.dependencies.map((dep) =>
+            dep.includes('::') ? dep : `${declaration.name}::${dep}`,
+          ),
+        );
+      }
+    }
+  }
 
-    const namespaceMatch = content.match(/namespace\s+([\w\\]+)/);
-    const namespace = namespaceMatch ? namespaceMatch[1] + '\\' : '';
+  /**
+   * Retry every test of a class whose source is unavailable, as its
+   * dependencies cannot be resolved.
+   */
+  retryWholeClass(className: string): void {
+    this.wholeClasses.add(className);
+  }
 
-    const classMatch = content.match(/(?:abstract\s+|final\s+)?class\s+(\w+)/);
-    if (!classMatch) return;
-    const className = classMatch[1]!;
-    const fullClassName = namespace + className;
+  /**
+   * Report `@depends` problems among the parsed tests: cycles, targets that
+   * are not tests of a parsed class, and classes that could not be found.
+   */
+  diagnose(): DependencyDiagnostic[] {
+    const diagnostics: DependencyDiagnostic[] = [];
+
+    // Classes loaded below add their own dependencies, which are not checked
+    for (const [test, deps] of [...this.dependencyMap]) {
+      const location = this.tests.get(test);
+
+      for (const dep of deps) {
+        const [className, method] = dep.split('::') as [string, string];
+
+        if (!this.loadTestClass(className, location?.file)) {
+          diagnostics.push({
+            type: 'unresolved-class',
+            test,
+            target: dep,
+            ...location,
+            message: `${test} depends on ${dep}, but the source of ${className} could not be found`,
+          });
+        } else if (method !== 'class' && !this.tests.has(dep)) {
+          diagnostics.push({
+            type: 'unknown-target',
+            test,
+            target: dep,
+            ...location,
+            message: `${test} depends on ${dep}, which is not a test of ${className}`,
+          });
+        }
+      }
+    }
 
-    const methodRegex = /\/\*\*([\s\S]*?)\*\/\s*public\s+function\s+(test\w+)/g;
+    for (const cycle of this.findCycles()) {
+      const test = cycle[0]!;
+      diagnostics.push({
+        type: 'cycle',
+        test,
+        cycle,
+        ...this.tests.get(test),
+        message: `Circular dependency: ${cycle.join(' -> ')}`,
+      });
+    }
 
-    let match;
-    while ((match = methodRegex.exec(content)) !== null) {
-      const docblock = match[1];
-      const methodName = match[2];
+    return diagnostics;
+  }
 
-      if (!docblock || !methodName) continue;
+  // Parse the tests of a class depended on that was not parsed yet
+  private loadTestClass(className: string, fromFile?: string): boolean {
+    if (this.parsedClasses.has(className)) {
+      return true;
+    }
 
-      const dependsRegex = /@depends\s+(\w+(?:::\w+)?)/g;
-      const dependencies: string[] = [];
+    const declaration = fromFile && this.loadDeclaration(className, fromFile);
+    if (!declaration) {
+      return false;
+    }
 
-      let depMatch;
-      while ((depMatch = dependsRegex.exec(docblock)) !== null) {
-        const dep = depMatch[1];
-        if (!dep) continue;
+    this.parseTestFile(declaration.file);
+    return this.parsedClasses.has(className);
+  }
 
-        if (dep.includes('::')) {
-          dependencies.push(dep);
-        } else {
-          dependencies.push(`${fullClassName}::${dep}`);
+  /**
+   * Each cycle once, as a closed path starting at its smallest test name.
+   */
+  private findCycles(): string[][] {
+    const cycles = new Map<string, string[]>();
+    const done = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (test: string) => {
+      stack.push(test);
+
+      for (const dep of this.dependencyMap.get(test) || []) {
+        const index = stack.indexOf(dep);
+        if (index !== -1) {
+          const members = stack.slice(index);
+          const start = members.indexOf([...members].sort()[0]!);
+          const cycle = [...members.slice(start), ...members.slice(0, start)];
+          cycles.set(cycle.join('|'), [...cycle, cycle[0]!]);
+        } else if (!done.has(dep)) {
+          visit(dep);
         }
       }
 
-      if (dependencies.length > 0) {
-        const key = `${fullClassName}::${methodName}`;
-        this.dependencyMap.set(key, dependencies);
+      stack.pop();
+      done.add(test);
+    };
+
+    for (const test of this.dependencyMap.keys()) {
+      if (!done.has(test)) visit(test);
+    }
+
+    return Array.from(cycles.values());
+  }
+
+  /**
+   * Test methods of a class including the ones inherited from parent classes
+   * and used traits, with the file declaring them. Own methods override trait
+   * methods, which override parent methods, matching PHP's precedence.
+   */
+  private collectMethods(
+    declaration: TestClassDeclaration,
+    visited: Set<string>,
+  ): Map<string, { method: TestMethodDeclaration; file: string }> {
+    const methods = new Map<
+      string,
+      { method: TestMethodDeclaration; file: string }
+    >();
+    if (visited.has(declaration.name)) return methods;
+    visited.add(declaration.name);
+
+    const inherited = declaration.parent ? [declaration.parent] : [];
+    for (const className of [...inherited, ...declaration.traits]) {
+      const related = this.loadDeclaration(className, declaration.file);
+      if (!related) continue;
+
+      this.collectMethods(related, visited).forEach((entry, name) =>
+        methods.set(name, entry),
+      );
+    }
+
+    for (const method of declaration.methods) {
+      methods.set(method.name, { method, file: declaration.file });
+    }
+
+    return methods;
+  }
+
+  private loadDeclaration(
+    className: string,
+    fromFile: string,
+  ): TestClassDeclaration | null {
+    if (this.declarations.has(className)) {
+      return this.declarations.get(className)!;
+    }
+
+    // Classes outside the test suite (e.g. PHPUnit's TestCase) are never found,
+    // cache the miss so they are only looked up once.
+    this.declarations.set(className, null);
+
+    // A sibling of the same name may declare a class of another namespace
+    const shortName = className.split('\\').pop()!;
+    const sibling = path.join(path.dirname(fromFile), `${shortName}.php`);
+    let declaration = fs.existsSync(sibling)
+      ? this.findDeclaration(sibling, className)
+      : null;
+    if (!declaration) {
+      const filePath = this.locateClass?.(className, fromFile);
+      declaration = filePath ? this.findDeclaration(filePath, className) : null;
+    }
+
+    if (!declaration) {
+      core.debug(`Could not locate source of ${className}`);
+      return null;
+    }
+
+    this.declarations.set(className, declaration);
+    return declaration;
+  }
+
+  private findDeclaration(
+    filePath: string,
+    className: string,
+  ): TestClassDeclaration | null {
+    const declaration = this.parseDeclarations(filePath).find(
+      (candidate) => candidate.name === className,
+    );
+    if (!declaration) {
+      core.debug(`${filePath} does not declare ${className}`);
+    }
+    return declaration ?? null;
+  }
+
+  private parseDeclarations(filePath: string): TestClassDeclaration[] {
+    const declarations: TestClassDeclaration[] = [];
+
+    for (const phpClass of this.scanner.scanFile(filePath)) {
+      if (phpClass.kind !== 'class' && phpClass.kind !== 'trait') continue;
+
+      const declaration: TestClassDeclaration = {
+        name: phpClass.fullName,
+        file: filePath,
+        parent: phpClass.parent,
+        traits: phpClass.traits,
+        methods: [],
+      };
+
+      for (const method of phpClass.methods) {
+        if (!this.isTestMethod(method)) continue;
+
+        declaration.methods.push({
+          name: method.name,
+          line: method.line,
+          dependencies: [
+            ...this.parseDocblockDependencies(method.docblock),
+            ...this.parseAttributeDependencies(method.attributes),
+          ],
+        });
       }
+
+      declarations.push(declaration);
     }
+
+    return declarations;
+  }
+
+  /**
+   * Public methods named `test*`, annotated with `@test` or attributed `#[Test]`.
+   */
+  private isTestMethod(method: PhpMethod): boolean {
+    if (
+      method.modifiers.includes('private') ||
+      method.modifiers.includes('protected')
+    ) {
+      return false;
+    }
+
+    return (
+      method.name.startsWith('test') ||
+      /@test(?![\w-])/.test(method.docblock ?? '') ||
+      method.attributes.some(
+        (attribute) => attribute.name.split('\\').pop() === 'Test',
+      )
+    );
+  }
+
+  /**
+   * Parse `@depends` annotations into dependency names.
+   *
+   * `@depends [clone|shallowClone|!clone|!shallowClone] <target>`, where target
+   * is `method`, `Fully\Qualified\Class::method` or `Fully\Qualified\Class::class`.
+   */
+  private parseDocblockDependencies(docblock: string | undefined): string[] {
+    const dependencies: string[] = [];
+    if (!docblock) return dependencies;
+
+    const dependsRegex =
+      /@depends\s+(?:!?(?:clone|shallowClone)\s+)?\\?([\w\\]+(?:::\w+)?)/g;
+
+    let match;
+    while ((match = dependsRegex.exec(docblock)) !== null) {
+      const dep = match[1];
+      if (dep) dependencies.push(dep);
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Parse `#[Depends*]` attributes into dependency names.
+   *
+   * Same-class dependencies are recorded as bare method names, class-level
+   * dependencies (`DependsOnClass*`) as `Class::class`.
+   */
+  private parseAttributeDependencies(attributes: PhpAttribute[]): string[] {
+    const dependencies: string[] = [];
+
+    for (const attribute of attributes) {
+      const shortName = attribute.name.split('\\').pop()!;
+      const match = shortName.match(
+        /^Depends(External|OnClass)?(?:Using(?:Deep|Shallow)Clone)?$/,
+      );
+      if (!match) continue;
+
+      const kind = match[1];
+      const argument = (index: number, name: string) =>
+        (
+          attribute.arguments.find((arg) => arg.name === name) ??
+          attribute.arguments.filter((arg) => !arg.name)[index]
+        )?.value;
+
+      if (kind === 'OnClass') {
+        const target = this.parseClassArgument(argument(0, 'className'));
+        if (target) dependencies.push(`${target}::class`);
+      } else if (kind === 'External') {
+        const target = this.parseClassArgument(argument(0, 'className'));
+        const method = this.parseStringArgument(argument(1, 'methodName'));
+        if (target && method) dependencies.push(`${target}::${method}`);
+      } else {
+        const method = this.parseStringArgument(argument(0, 'methodName'));
+        if (method) dependencies.push(method);
+      }
+    }
+
+    return dependencies;
+  }
+
+  private parseStringArgument(arg: string | undefined): string | null {
+    const match = arg?.match(/^(['"])(.*)\1$/);
+    return match ? match[2]! : null;
+  }
+
+  private parseClassArgument(arg: string | undefined): string | null {
+    if (!arg) return null;
+
+    // `Foo::class` is already resolved to its fully qualified name by the scanner
+    const constMatch = arg.match(/^\\?([\w\\]+)::class$/);
+    if (constMatch) {
+      return constMatch[1]!;
+    }
+
+    // String literals are always fully qualified
+    const literal = this.parseStringArgument(arg);
+    return literal ? literal.replace(/\\\\/g, '\\').replace(/^\\/, '') : null;
   }
 
   private resolveDependencies(
@@ -69,17 +400,47 @@ export class DependencyResolver {
     return result;
   }
 
+  /**
+   * Skipped tests that depend, directly or through other tests, on a failed
+   * test. PHPUnit skips them without running, so they are retried as well.
+   */
+  findDependencySkips(
+    skippedTests: FailedTest[],
+    failedTests: FailedTest[],
+  ): FailedTest[] {
+    const failedKeys = new Set(failedTests.map((t) => this.getTestKey(t)));
+    const failedClasses = new Set(
+      failedTests.map((t) => t.name.split('::')[0]),
+    );
+
+    return skippedTests.filter((test) => {
+      // Reporters that keep the skip message name the dependency
+      if (test.error && /^This test depends on .+ to pass/.test(test.error)) {
+        return true;
+      }
+
+      const key = this.getTestKey(test);
+      return Array.from(this.resolveDependencies(key)).some(
+        (dep) =>
+          dep !== key &&
+          (failedKeys.has(dep) ||
+            (dep.endsWith('::class') &&
+              failedClasses.has(dep.slice(0, -'::class'.length)))),
+      );
+    });
+  }
+
   buildDependencyTree(failedTests: FailedTest[]): string {
     const lines: string[] = [];
 
     for (const test of failedTests) {
-      const chain = this.buildDependencyChain(test.name);
+      const chain = this.buildDependencyChain(this.getTestKey(test));
       if (chain.length > 1) {
         for (let i = 0; i < chain.length; i++) {
           const indent = '  '.repeat(i);
           const connector = i === 0 ? '' : '└─> ';
           const label =
-            i === chain.length - 1 ? `${chain[i]} (FAILED)` : chain[i]!;
+            i === chain.length - 1 ? `${test.name} (FAILED)` : chain[i]!;
           lines.push(`${indent}${connector}${label}`);
         }
       } else {
@@ -151,21 +512,175 @@ export class DependencyResolver {
     return [root];
   }
 
+  /**
+   * Full dependency subgraph of the given tests. Tests that are neither
+   * failed nor flaky are dependencies that passed.
+   */
+  buildDependencyGraph(
+    failedTests: FailedTest[],
+    flakyTests: FlakyTest[] = [],
+  ): DependencyGraph {
+    const statuses = new Map<string, DependencyGraphNode['status']>();
+    for (const test of flakyTests) {
+      statuses.set(this.getTestKey(test), 'flaky');
+    }
+    for (const test of failedTests) {
+      statuses.set(this.getTestKey(test), 'failed');
+    }
+
+    const nodes: DependencyGraphNode[] = [];
+    const edges: DependencyGraphEdge[] = [];
+    const queue = Array.from(statuses.keys());
+    const visited = new Set<string>(queue);
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      nodes.push({ id, status: statuses.get(id) ?? 'passed' });
+
+      for (const dep of this.dependencyMap.get(id) || []) {
+        edges.push({ from: id, to: dep });
+        if (!visited.has(dep)) {
+          visited.add(dep);
+          queue.push(dep);
+        }
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Split tests into groups that share no dependencies, the connected
+   * components of the dependency graph, so each can run on its own. Tests of
+   * classes retried whole, or depended on with `Class::class`, share their class.
+   */
+  groupByDependencies(failedTests: FailedTest[]): FailedTest[][] {
+    const parents = new Map<string, string>();
+    const find = (node: string): string => {
+      let root = node;
+      while (parents.has(root) && parents.get(root) !== root) {
+        root = parents.get(root)!;
+      }
+      parents.set(node, root);
+      return root;
+    };
+    const union = (a: string, b: string) => parents.set(find(a), find(b));
+
+    const testNodes = failedTests.map((test) => {
+      const key = this.getTestKey(test);
+      const className = key.split('::')[0]!;
+      const node = this.wholeClasses.has(className)
+        ? `${className}::class`
+        : key;
+      for (const dep of node === key ? this.resolveDependencies(key) : []) {
+        union(dep, node);
+      }
+      find(node);
+      return node;
+    });
+
+    // `Class::class` runs every test of the class
+    for (const node of Array.from(parents.keys())) {
+      const className = node.split('::')[0]!;
+      if (!node.endsWith('::class') && parents.has(`${className}::class`)) {
+        union(node, `${className}::class`);
+      }
+    }
+
+    const groups = new Map<string, FailedTest[]>();
+    failedTests.forEach((test, index) => {
+      const root = find(testNodes[index]!);
+      groups.set(root, [...(groups.get(root) ?? []), test]);
+    });
+
+    return Array.from(groups.values());
+  }
+
   buildFilterPattern(failedTests: FailedTest[]): string {
-    const allTests = new Set<string>();
+    // Test key => data sets to run, or null to run every data set
+    const allTests = new Map<string, Set<string> | null>();
 
     for (const test of failedTests) {
-      const key = test.name;
+      const key = this.getTestKey(test);
+      const className = key.split('::')[0]!;
+      if (this.wholeClasses.has(className)) {
+        allTests.set(`${className}::class`, null);
+        continue;
+      }
+
       const deps = this.resolveDependencies(key);
       deps.forEach((fullName) => {
-        allTests.add(fullName);
+        if (fullName === key && test.dataSet) {
+          const dataSets = allTests.has(key)
+            ? allTests.get(key)
+            : new Set<string>();
+          dataSets?.add(test.dataSet);
+          allTests.set(key, dataSets ?? null);
+        } else {
+          // Dependencies always run with all their data sets
+          allTests.set(fullName, null);
+        }
       });
     }
 
-    return Array.from(allTests)
-      .map(
-        (test) => `${test}$`,
-      ) /* `testCreateProject` should not match `testCreateProjectSMTPTests` */
+    const entries: Array<{ test: string; dataSet?: string }> = [];
+    for (const [test, dataSets] of allTests) {
+      if (dataSets) {
+        dataSets.forEach((dataSet) => entries.push({ test, dataSet }));
+      } else {
+        entries.push({ test });
+      }
+    }
+
+    // PHPUnit expands its `testFoo#3` / `testFoo@name` data set shorthand only
+    // when it is the whole filter, alternations need the expanded form.
+    const [single] = entries;
+    if (entries.length === 1 && single?.dataSet) {
+      return single.dataSet.startsWith('@')
+        ? `${single.test}@${this.escapeFilterLiteral(single.dataSet.substring(1))}`
+        : `${single.test}${single.dataSet}`;
+    }
+
+    return entries
+      .map(({ test, dataSet }) => {
+        if (test.endsWith('::class')) {
+          // `Class::class` depends on every test of that class
+          return test.slice(0, -'class'.length);
+        }
+
+        if (dataSet?.startsWith('@')) {
+          const name = this.escapeFilterLiteral(dataSet.substring(1));
+          return `${test} with data set "${name}"$`;
+        }
+
+        if (dataSet) {
+          return `${test} with data set ${dataSet}$`;
+        }
+
+        /* `testCreateProject` should not match `testCreateProjectSMTPTests` */
+        return `${test}$`;
+      })
       .join('|');
   }
+
+  /**
+   * `Tests\...\Class::method` without data set, the key of the dependency map.
+   */
+  private getTestKey(test: Pick<FailedTest, 'name' | 'method'>): string {
+    const className = test.name.split('::')[0]!;
+    return `${className}::${test.method}`;
+  }
+
+  /**
+   * Escape a data set name for the filter regex. Backslash escapes are not
+   * available (every backslash is escaped as a namespace separator), so
+   * metacharacters are wrapped in character classes instead. `@` would trigger
+   * PHPUnit's data set shorthand and backticks shell substitution, so both
+   * match any character.
+   */
+  private escapeFilterLiteral(value: string): string {
+    return value
+      .replace(/[.*+?()[\]{}|$]/g, (char) => `[${char}]`)
+      .replace(/[\^@`]/g, '.');
+  }
 }
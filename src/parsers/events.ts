@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import {
+  OUTCOME_SEVERITY,
+  UNFINISHED_TEST_ERROR,
+  countTestCases,
+  findProjectFrame,
+} from './junit.js';
+import type { JUnitReport, TestCaseResult, TestOutcome } from '../types.js';
+
+interface LoggedTest {
+  id: string;
+  outcome?: TestOutcome;
+  message: string[];
+  finished: boolean;
+}
+
+const OUTCOME_EVENTS: Record<string, TestOutcome> = {
+  'Test Passed': 'passed',
+  'Test Failed': 'failed',
+  'Test Errored': 'error',
+  'Test Skipped': 'skipped',
+  'Test Marked Incomplete': 'incomplete',
+  'Test Considered Risky': 'risky',
+  'Test Triggered PHPUnit Warning': 'warning',
+};
+
+// `[00:00:00.012 / 00:00:00.001] [4194304 bytes] ` of --log-events-verbose-text
+const TELEMETRY = /^\[[^\]]*\] \[\d+ bytes\] /;
+
+/**
+ * Parses PHPUnit 10+ event logs (`--log-events-text` and
+ * `--log-events-verbose-text`), one event per line followed by its message
+ * lines.
+ *
+ * The log has no file names: test files are assumed to be named after their
+ * class, as PSR-4 requires, and looked up by that name.
+ */
+export class EventLogParser {
+  parseReport(logPath: string): JUnitReport {
+    return this.parseLog(fs.readFileSync(logPath, 'utf-8'));
+  }
+
+  parseLog(log: string): JUnitReport {
+    const lines = log.split(/\r?\n/);
+    const verbose = TELEMETRY.test(lines[0] || '');
+    const tests = new Map<string, LoggedTest>();
+    let message: string[] | null = null; // Lines following an outcome event
+    let total = 0;
+
+    for (const line of lines) {
+      // Message lines are indented below the telemetry in verbose logs, and
+      // not indented at all otherwise
+      const isEvent = verbose
+        ? TELEMETRY.test(line)
+        : /^[A-Z][A-Za-z]*(?: [A-Z][A-Za-z]*)*(?: \(.*\))?$/.test(line);
+      if (!isEvent) {
+        message?.push(line.trim());
+        continue;
+      }
+      message = null;
+
+      const event = line
+        .replace(TELEMETRY, '')
+        .match(/^([A-Z][A-Za-z ]*?) \((.*)\)$/);
+      if (!event) continue;
+
+      const name = event[1]!;
+      const subject = event[2]!;
+
+      const count = subject.match(/^(\d+) tests?$/);
+      if (
+        count &&
+        (name === 'Test Suite Loaded' ||
+          name === 'Test Runner Execution Started')
+      ) {
+        total = parseInt(count[1]!, 10);
+        continue;
+      }
+
+      const isTestEvent =
+        name === 'Test Preparation Started' ||
+        name === 'Test Prepared' ||
+        name === 'Test Finished' ||
+        name in OUTCOME_EVENTS;
+      if (!isTestEvent || !subject.includes('::')) continue;
+
+      let test = tests.get(subject);
+      if (!test) {
+        test = { id: subject, message: [], finished: false };
+        tests.set(subject, test);
+      }
+
+      if (name === 'Test Finished') {
+        test.finished = true;
+      }
+
+      const outcome = OUTCOME_EVENTS[name];
+      if (
+        outcome &&
+        (!test.outcome ||
+          OUTCOME_SEVERITY[outcome] > OUTCOME_SEVERITY[test.outcome])
+      ) {
+        test.outcome = outcome;
+        test.message = [];
+        message = test.message;
+      }
+    }
+
+    const testCases = [...tests.values()].map((test) => this.toResult(test));
+    return { testCases, stats: countTestCases(testCases, total) };
+  }
+
+  private toResult(test: LoggedTest): TestCaseResult {
+    // `Class::method#0` / `Class::method#invalid email`
+    const separator = test.id.indexOf('::');
+    const fullName = test.id.substring(0, separator);
+    const [method, dataSetName] = test.id
+      .substring(separator + 2)
+      .split(/#(.*)/s) as [string, string?];
+
+    let methodName = method;
+    let dataSet: string | undefined;
+    if (dataSetName !== undefined) {
+      const numeric = /^\d+$/.test(dataSetName);
+      methodName += numeric
+        ? ` with data set #${dataSetName}`
+        : ` with data set "${dataSetName}"`;
+      dataSet = numeric ? `#${dataSetName}` : `@${dataSetName}`;
+    }
+
+    const className = fullName.split('\\').pop() || fullName;
+    const file = `${className}.php`;
+    const interrupted = !test.finished && !test.outcome;
+    const trace = test.message.join('\n').trim() || undefined;
+
+    return {
+      name: `${fullName}::${methodName}`,
+      class: className,
+      method,
+      dataSet,
+      file,
+      line: 0,
+      error: interrupted ? UNFINISHED_TEST_ERROR : trace?.split('\n')[0],
+      trace,
+      frame: trace ? findProjectFrame(trace, file) : undefined,
+      outcome: interrupted ? 'error' : test.outcome || 'passed',
+    };
+  }
+}
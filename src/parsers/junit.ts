@@ -1,164 +1,509 @@
-import { XMLParser } from 'fast-xml-parser';
 import * as fs from 'fs';
-import type { FailedTest, JUnitXML, TestSuite } from '../types.js';
+import { XmlStreamParser, type XmlHandler } from './xml.js';
+import type {
+  FailedTest,
+  FirstAttemptStats,
+  JUnitReport,
+  StackFrame,
+  TestCaseResult,
+  TestOutcome,
+} from '../types.js';
 
-export class JUnitParser {
-  parseXMLFile(xmlPath: string): FailedTest[] {
-    const xmlContent = fs.readFileSync(xmlPath, 'utf-8');
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-    });
-    const result = parser.parse(xmlContent) as JUnitXML;
+export const MAX_OUTPUT_LENGTH = 64 * 1024; // Characters kept per trace or output
+const CHUNK_SIZE = 64 * 1024;
 
-    const failures: FailedTest[] = [];
+// Text of an element, cut off after the output limit
+interface TextBuffer {
+  text: string;
+  truncated: number;
+}
 
-    let testsuites: TestSuite[] = [];
+interface ElementState {
+  attributes: Record<string, string>;
+  content: TextBuffer;
+}
 
-    if (result.testsuites) {
-      testsuites = this.ensureArray(result.testsuites.testsuite);
-    } else if (result.testsuite) {
-      testsuites = this.ensureArray(result.testsuite);
-    }
+interface TestCaseState {
+  attributes: Record<string, string>;
+  children: Map<string, ElementState>; // First failure, error, skipped, ...
+}
 
-    for (const suite of testsuites) {
-      this.extractFailuresFromSuite(suite, failures);
+const TEST_CASE_CHILDREN = new Set([
+  'failure',
+  'error',
+  'skipped',
+  'warning',
+  'system-out',
+  'system-err',
+]);
+
+// Which outcome wins when reports disagree about a test
+export const OUTCOME_SEVERITY: Record<TestOutcome, number> = {
+  passed: 0,
+  skipped: 1,
+  incomplete: 1,
+  warning: 2,
+  risky: 2,
+  failed: 3,
+  error: 3,
+};
+
+const OUTCOME_COUNTERS: Record<
+  TestOutcome,
+  Exclude<keyof FirstAttemptStats, 'total' | 'assertions'> | null
+> = {
+  passed: null,
+  failed: 'failures',
+  error: 'failures',
+  skipped: 'skipped',
+  incomplete: 'incomplete',
+  risky: 'risky',
+  warning: 'warnings',
+};
+
+/**
+ * Split `testFoo with data set #3` / `testFoo with data set "invalid email"`
+ * into the method name and the data set in PHPUnit's filter notation.
+ */
+export function splitDataSet(name: string): {
+  method: string;
+  dataSet?: string;
+} {
+  const match = name.match(/^(.+?) with data set (?:#(\d+)|"(.*)")$/s);
+  if (!match) {
+    return { method: name };
+  }
+
+  const dataSet = match[2] !== undefined ? `#${match[2]}` : `@${match[3]}`;
+  return { method: match[1]!, dataSet };
+}
+
+/**
+ * First `file:line` frame of a PHPUnit trace outside `vendor/`, or in the
+ * test file itself (which may be a vendored test suite).
+ */
+export function findProjectFrame(
+  trace: string,
+  testFile: string,
+): StackFrame | undefined {
+  for (const match of trace.matchAll(/^\s*(\S+\.php):(\d+)\s*$/gm)) {
+    const file = match[1]!;
+    if (file === testFile || !/[\\/]vendor[\\/]/.test(file)) {
+      return { file, line: parseInt(match[2]!, 10) };
     }
+  }
+  return undefined;
+}
+
+/**
+ * Exception class printed before the message of errors, e.g.
+ * `RuntimeException: Connection refused`. Assertion failures only print
+ * their message.
+ */
+export function findExceptionClass(
+  message: string | undefined,
+): string | undefined {
+  return message?.match(
+    /^\\?((?:[A-Za-z_]\w*\\)*\w*(?:Exception|Error))(?::\s|$)/,
+  )?.[1];
+}
+
+/**
+ * Error of tests that were running when an attempt was killed or crashed.
+ * Event logs are written while the tests run, so a log cut short still lists
+ * the finished tests; a test that started but never finished gets this error.
+ */
+export const UNFINISHED_TEST_ERROR =
+  'Test did not finish, the run was interrupted (timeout or crash)';
 
-    return failures;
+/**
+ * Stats of reports that only list test cases, `total` being the number of
+ * tests the run announced when it was cut short.
+ */
+export function countTestCases(
+  testCases: TestCaseResult[],
+  total = 0,
+): FirstAttemptStats {
+  const stats: FirstAttemptStats = {
+    total: Math.max(total, testCases.length),
+    failures: 0,
+    assertions: 0,
+    skipped: 0,
+    incomplete: 0,
+    risky: 0,
+    warnings: 0,
+  };
+
+  for (const testCase of testCases) {
+    const counter = OUTCOME_COUNTERS[testCase.outcome];
+    if (counter) {
+      stats[counter]++;
+    }
   }
 
-  getTestStats(xmlPath: string): {
-    total: number;
-    failures: number;
-    assertions: number;
-  } {
-    const xmlContent = fs.readFileSync(xmlPath, 'utf-8');
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-    });
-    const result = parser.parse(xmlContent) as JUnitXML;
-
-    let total = 0;
-    let failures = 0;
-    let errors = 0;
-    let assertions = 0;
-
-    if (result.testsuites) {
-      // Check if testsuites root has attributes (some PHPUnit versions)
-      const rootTests = parseInt(result.testsuites['@_tests'] || '0', 10);
-      const rootFailures = parseInt(result.testsuites['@_failures'] || '0', 10);
-      const rootErrors = parseInt(result.testsuites['@_errors'] || '0', 10);
-
-      if (rootTests > 0) {
-        total = rootTests;
-        failures = rootFailures;
-        errors = rootErrors;
-        assertions = parseInt(result.testsuites['@_assertions'] || '0', 10);
+  return stats;
+}
+
+/**
+ * Merge the reports of several PHPUnit runs, e.g. chained invocations or
+ * ParaTest workers. A test found in more than one report is kept once, with
+ * its most severe outcome, and counted once in the stats.
+ */
+export function mergeReports(reports: JUnitReport[]): JUnitReport {
+  const testCases = new Map<string, TestCaseResult>();
+  const duplicates: TestCaseResult[] = [];
+  const stats = countTestCases([]);
+
+  for (const report of reports) {
+    for (const testCase of report.testCases) {
+      const existing = testCases.get(testCase.name);
+      if (!existing) {
+        testCases.set(testCase.name, testCase);
+      } else if (
+        OUTCOME_SEVERITY[testCase.outcome] > OUTCOME_SEVERITY[existing.outcome]
+      ) {
+        testCases.set(testCase.name, testCase);
+        duplicates.push(existing);
       } else {
-        // Sum from nested testsuites
-        const suites = this.ensureArray(result.testsuites.testsuite);
-        for (const suite of suites) {
-          total += parseInt(suite['@_tests'] || '0', 10);
-          failures += parseInt(suite['@_failures'] || '0', 10);
-          errors += parseInt(suite['@_errors'] || '0', 10);
-          assertions += parseInt(suite['@_assertions'] || '0', 10);
-        }
+        duplicates.push(testCase);
       }
-    } else if (result.testsuite) {
-      total = parseInt(result.testsuite['@_tests'] || '0', 10);
-      failures = parseInt(result.testsuite['@_failures'] || '0', 10);
-      errors = parseInt(result.testsuite['@_errors'] || '0', 10);
-      assertions = parseInt(result.testsuite['@_assertions'] || '0', 10);
     }
 
-    return { total, failures: failures + errors, assertions };
+    for (const key of Object.keys(stats) as (keyof FirstAttemptStats)[]) {
+      stats[key] += report.stats[key];
+    }
   }
 
-  private extractFailuresFromSuite(
-    suite: TestSuite,
-    failures: FailedTest[],
-  ): void {
-    if (suite?.testsuite) {
-      const nestedSuites = this.ensureArray(suite.testsuite);
-      for (const nestedSuite of nestedSuites) {
-        this.extractFailuresFromSuite(nestedSuite, failures);
-      }
+  for (const duplicate of duplicates) {
+    stats.total--;
+    const counter = OUTCOME_COUNTERS[duplicate.outcome];
+    if (counter) {
+      stats[counter]--;
     }
+  }
 
-    const testcases = this.ensureArray(suite?.testcase);
+  return { testCases: [...testCases.values()], stats };
+}
 
-    for (const testcase of testcases) {
-      if (testcase.failure || testcase.error) {
-        const fullName = testcase['@_class'];
-        const methodName = testcase['@_name'];
-        const file = testcase['@_file'];
+export class JUnitParser {
+  private readonly maxOutputLength: number;
 
-        if (!fullName || !methodName || !file) {
-          continue;
-        }
+  constructor(maxOutputLength = MAX_OUTPUT_LENGTH) {
+    this.maxOutputLength = maxOutputLength;
+  }
 
-        const className = fullName.split('\\').pop() || fullName;
-        const line = parseInt(testcase['@_line'] || '0', 10);
+  parseXMLFile(xmlPath: string): FailedTest[] {
+    return this.parseTestCases(xmlPath)
+      .filter(
+        (testCase) =>
+          testCase.outcome === 'failed' || testCase.outcome === 'error',
+      )
+      .map(({ outcome, ...test }) => test);
+  }
 
-        // extract error from failure or error node
-        const errorMessage = this.extractErrorMessage(
-          testcase.failure || testcase.error,
-        );
+  /**
+   * Every test case of the report with its outcome.
+   */
+  parseTestCases(xmlPath: string): TestCaseResult[] {
+    return this.parseReport(xmlPath).testCases;
+  }
 
-        // extract time attribute (in seconds)
-        const time = testcase['@_time']
-          ? parseFloat(testcase['@_time'])
-          : undefined;
-
-        failures.push({
-          name: `${fullName}::${methodName}`,
-          class: className,
-          method: methodName,
-          file: file,
-          line: line,
-          error: errorMessage,
-          time: time,
-        });
+  getTestStats(xmlPath: string): FirstAttemptStats {
+    return this.parseReport(xmlPath).stats;
+  }
+
+  /**
+   * Test cases and stats of a report, read in a single pass.
+   */
+  parseReport(xmlPath: string): JUnitReport {
+    const testCases: TestCaseResult[] = [];
+    const reader = this.readTestCases(xmlPath);
+
+    let next = reader.next();
+    while (!next.done) {
+      testCases.push(next.value);
+      next = reader.next();
+    }
+
+    return { testCases, stats: next.value };
+  }
+
+  /**
+   * Test cases and stats of several reports, see mergeReports().
+   */
+  parseReports(xmlPaths: string[]): JUnitReport {
+    if (xmlPaths.length === 1) {
+      return this.parseReport(xmlPaths[0]!);
+    }
+    return mergeReports(xmlPaths.map((xmlPath) => this.parseReport(xmlPath)));
+  }
+
+  /**
+   * Stream the test cases of a report as they are read, returning the stats
+   * once the whole file is read. Output of passed tests is dropped and
+   * traces and output are truncated, so memory use does not grow with them.
+   */
+  *readTestCases(
+    xmlPath: string,
+  ): Generator<TestCaseResult, FirstAttemptStats, undefined> {
+    const collector = new JUnitCollector(
+      (state) => this.buildTestCase(state),
+      this.maxOutputLength,
+    );
+    const parser = new XmlStreamParser(collector);
+    const decoder = new TextDecoder('utf-8');
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+    const fd = fs.openSync(xmlPath, 'r');
+
+    try {
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, chunk, 0, CHUNK_SIZE, null)) > 0) {
+        parser.write(
+          decoder.decode(chunk.subarray(0, bytesRead), {
+            stream: true,
+          }),
+        );
+        yield* collector.drain();
       }
+
+      parser.write(decoder.decode());
+      parser.end();
+      yield* collector.drain();
+    } finally {
+      fs.closeSync(fd);
     }
+
+    return collector.getStats();
   }
 
-  private extractErrorMessage(failureNode: unknown): string | undefined {
-    if (!failureNode) return undefined;
+  private buildTestCase(state: TestCaseState): TestCaseResult | null {
+    const fullName = state.attributes['class'];
+    const methodName = state.attributes['name'];
+    const file = state.attributes['file'];
 
-    // If it's a string, return it directly
-    if (typeof failureNode === 'string') {
-      return failureNode.trim();
+    if (!fullName || !methodName || !file) {
+      return null;
     }
 
-    // If it's an object, try to extract message attribute or text content
-    if (typeof failureNode === 'object') {
-      const node = failureNode as Record<string, unknown>;
+    const className = fullName.split('\\').pop() || fullName;
+    const line = parseInt(state.attributes['line'] || '0', 10);
+    const { outcome, node } = this.getOutcome(state);
 
-      // Try @_message attribute first (common in JUnit XML)
-      if (node['@_message'] && typeof node['@_message'] === 'string') {
-        return node['@_message'].trim();
-      }
+    // extract error from failure, error, skipped or warning node
+    const errorMessage = node
+      ? node.attributes['message']?.trim() || this.getText(node.content)
+      : undefined;
+    const trace = node ? this.getText(node.content) : undefined;
+
+    // extract time attribute (in seconds)
+    const time = state.attributes['time']
+      ? parseFloat(state.attributes['time'])
+      : undefined;
+
+    const { method, dataSet } = splitDataSet(methodName);
+    const output = (name: string) =>
+      outcome === 'passed'
+        ? undefined
+        : this.getText(state.children.get(name)?.content);
+
+    return {
+      name: `${fullName}::${methodName}`,
+      class: className,
+      method,
+      dataSet,
+      file: file,
+      line: line,
+      error: errorMessage,
+      errorType: node?.attributes['type'],
+      trace,
+      frame: trace ? findProjectFrame(trace, file) : undefined,
+      systemOut: output('system-out'),
+      systemErr: output('system-err'),
+      time: time,
+      outcome,
+    };
+  }
+
+  /**
+   * PHPUnit writes skipped and incomplete tests as `<skipped/>`, and risky
+   * tests as errors typed with PHPUnit's risky test exception.
+   */
+  private getOutcome(state: TestCaseState): {
+    outcome: TestOutcome;
+    node?: ElementState;
+  } {
+    const failure = state.children.get('failure');
+    const fault = failure ?? state.children.get('error');
+    if (fault) {
+      const type = fault.attributes['type'] || '';
 
-      // Try #text property (text content)
-      if (node['#text'] && typeof node['#text'] === 'string') {
-        return node['#text'].trim();
+      if (/^PHPUnit\\Framework\\Risky/.test(type)) {
+        return { outcome: 'risky', node: fault };
+      }
+      if (/^PHPUnit\\Framework\\Incomplete/.test(type)) {
+        return { outcome: 'incomplete', node: fault };
+      }
+      if (/^PHPUnit\\Framework\\Skipped/.test(type)) {
+        return { outcome: 'skipped', node: fault };
+      }
+      if (type === 'PHPUnit\\Framework\\Warning') {
+        return { outcome: 'warning', node: fault };
       }
+      return { outcome: failure ? 'failed' : 'error', node: fault };
+    }
+
+    const skipped = state.children.get('skipped');
+    if (skipped) {
+      const message =
+        skipped.attributes['message'] || skipped.content.text || '';
+      return {
+        outcome: /\bincomplete\b/i.test(message) ? 'incomplete' : 'skipped',
+        node: skipped,
+      };
+    }
 
-      // If the node itself can be stringified
-      const str = String(failureNode);
-      if (str && str !== '[object Object]') {
-        return str.trim();
+    const warning = state.children.get('warning');
+    if (warning) {
+      return { outcome: 'warning', node: warning };
+    }
+
+    return { outcome: 'passed' };
+  }
+
+  private getText(content: TextBuffer | undefined): string | undefined {
+    if (!content) return undefined;
+
+    const text = content.text.trim();
+    if (content.truncated > 0) {
+      return `${text}\n... (${content.truncated} more characters truncated)`;
+    }
+    return text || undefined;
+  }
+}
+
+/**
+ * Collects test cases and suite totals from the XML events of a report.
+ */
+class JUnitCollector implements XmlHandler {
+  private readonly buildTestCase: (
+    state: TestCaseState,
+  ) => TestCaseResult | null;
+  private readonly maxOutputLength: number;
+  private readonly stack: string[] = [];
+  private readonly pending: TestCaseResult[] = [];
+  private readonly outcomes = new Map<TestOutcome, number>();
+  private testCase: TestCaseState | null = null;
+  private content: TextBuffer | null = null; // Element receiving text
+  private rootAttributes: Record<string, string> = {};
+  private rootName = '';
+  private suiteTotals = { tests: 0, failures: 0, errors: 0, assertions: 0 };
+
+  constructor(
+    buildTestCase: (state: TestCaseState) => TestCaseResult | null,
+    maxOutputLength: number,
+  ) {
+    this.buildTestCase = buildTestCase;
+    this.maxOutputLength = maxOutputLength;
+  }
+
+  openTag(name: string, attributes: Record<string, string>): void {
+    const depth = this.stack.length;
+    this.stack.push(name);
+
+    if (depth === 0) {
+      this.rootName = name;
+      this.rootAttributes = attributes;
+    } else if (
+      depth === 1 &&
+      this.rootName === 'testsuites' &&
+      name === 'testsuite'
+    ) {
+      this.suiteTotals.tests += this.toInt(attributes['tests']);
+      this.suiteTotals.failures += this.toInt(attributes['failures']);
+      this.suiteTotals.errors += this.toInt(attributes['errors']);
+      this.suiteTotals.assertions += this.toInt(attributes['assertions']);
+    }
+
+    if (name === 'testcase') {
+      this.testCase = { attributes, children: new Map() };
+    } else if (
+      this.testCase &&
+      this.stack[depth - 1] === 'testcase' &&
+      TEST_CASE_CHILDREN.has(name) &&
+      !this.testCase.children.has(name)
+    ) {
+      const element = { attributes, content: { text: '', truncated: 0 } };
+      this.testCase.children.set(name, element);
+      this.content = element.content;
+    }
+  }
+
+  closeTag(name: string): void {
+    this.stack.pop();
+    this.content = null;
+
+    if (name === 'testcase' && this.testCase) {
+      const result = this.buildTestCase(this.testCase);
+      if (result) {
+        this.outcomes.set(
+          result.outcome,
+          (this.outcomes.get(result.outcome) || 0) + 1,
+        );
+        this.pending.push(result);
       }
+      this.testCase = null;
+    }
+  }
+
+  text(text: string): void {
+    if (!this.content) return;
+
+    const room = this.maxOutputLength - this.content.text.length;
+    if (text.length <= room) {
+      this.content.text += text;
+    } else {
+      this.content.text += text.substring(0, Math.max(room, 0));
+      this.content.truncated += text.length - Math.max(room, 0);
     }
+  }
+
+  drain(): TestCaseResult[] {
+    return this.pending.splice(0);
+  }
+
+  getStats(): FirstAttemptStats {
+    const root =
+      this.rootName === 'testsuites' || this.rootName === 'testsuite'
+        ? this.rootAttributes
+        : {};
+    const rootTests = this.toInt(root['tests']);
+
+    // Some PHPUnit versions only set totals on nested suites
+    const totals =
+      this.rootName === 'testsuites' && rootTests === 0
+        ? this.suiteTotals
+        : {
+            tests: rootTests,
+            failures: this.toInt(root['failures']),
+            errors: this.toInt(root['errors']),
+            assertions: this.toInt(root['assertions']),
+          };
+
+    // Suite attributes have no incomplete or risky counts, count test cases
+    const count = (outcome: TestOutcome) => this.outcomes.get(outcome) || 0;
 
-    return undefined;
+    return {
+      total: totals.tests,
+      failures: totals.failures + totals.errors,
+      assertions: totals.assertions,
+      skipped: count('skipped'),
+      incomplete: count('incomplete'),
+      risky: count('risky'),
+      warnings: count('warning'),
+    };
   }
 
-  private ensureArray<T>(value: T | T[] | undefined): T[] {
-    if (!value) return [];
-    return Array.isArray(value) ? value : [value];
+  private toInt(value: string | undefined): number {
+    return parseInt(value || '0', 10) || 0;
   }
 }
@@ -0,0 +1,250 @@
+import {
+  MAX_OUTPUT_LENGTH,
+  countTestCases,
+  findExceptionClass,
+  findProjectFrame,
+  splitDataSet,
+} from './junit.js';
+import { TeamCityParser } from './teamcity.js';
+import type { JUnitReport, TestCaseResult, TestOutcome } from '../types.js';
+
+interface OutputEntry {
+  name: string; // Class::method with data set
+  outcome: TestOutcome;
+  testdox: boolean;
+  lines: string[];
+  length: number;
+}
+
+// `There were 2 failures:`, `There was 1 risky test:`, ...
+const SECTIONS: [RegExp, TestOutcome | null][] = [
+  [/^failures?$/, 'failed'],
+  [/^errors?$/, 'error'],
+  [/^skipped tests?$/, 'skipped'],
+  [/^incomplete tests?$/, 'incomplete'],
+  [/^risky tests?$/, 'risky'],
+  [/^(?:PHPUnit )?warnings?$/, 'warning'],
+];
+
+const TESTDOX_SYMBOLS: Record<string, TestOutcome> = {
+  '✔': 'passed',
+  '✘': 'failed',
+  '↩': 'skipped',
+  '∅': 'incomplete',
+  '☢': 'risky',
+  '⚠': 'warning',
+};
+
+/**
+ * Extracts test results from PHPUnit's console output while it is streamed,
+ * for runs that left no report file. The defect lists of the default output
+ * (`There were 2 failures: 1) Class::method ...`) name tests exactly. The
+ * `--testdox` output only has prettified names: its method names are guesses
+ * and the classes are listed in `approximateClasses` to be retried whole.
+ * Service messages of `--teamcity` output take precedence over both.
+ */
+export class OutputParser {
+  readonly approximateClasses = new Set<string>();
+  private readonly maxOutputLength: number;
+  private buffer = ''; // Incomplete last line
+  private section: TestOutcome | null = null;
+  private entry: OutputEntry | null = null;
+  private testdoxClass: string | null = null;
+  private readonly defects: OutputEntry[] = [];
+  private readonly testdox: OutputEntry[] = [];
+  private readonly teamcity: string[] = []; // Service message lines
+  private total = 0;
+  private assertions = 0;
+
+  constructor(maxOutputLength = MAX_OUTPUT_LENGTH) {
+    this.maxOutputLength = maxOutputLength;
+  }
+
+  write(chunk: string): void {
+    const lines = (this.buffer + chunk).split('\n');
+    this.buffer = lines.pop()!;
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  end(): JUnitReport {
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+    this.finishEntry();
+
+    if (this.teamcity.length > 0) {
+      this.approximateClasses.clear();
+      return new TeamCityParser().parseLog(this.teamcity.join('\n'));
+    }
+
+    // Testdox details are only used when there is no exact defect list
+    const entries = this.defects.length > 0 ? this.defects : this.testdox;
+    if (entries === this.defects) {
+      this.approximateClasses.clear();
+    }
+
+    const testCases = entries.map((entry) => this.toResult(entry));
+    const stats = countTestCases(testCases, this.total);
+    stats.assertions = this.assertions;
+
+    return { testCases, stats };
+  }
+
+  private processLine(rawLine: string): void {
+    const line = rawLine.replace(/\x1b\[[0-9;]*m|\r$/g, '');
+
+    if (line.includes('##teamcity[')) {
+      this.teamcity.push(line);
+      return;
+    }
+
+    const summary = line.match(
+      /^(?:OK \((\d+) tests?, (\d+) assertions?\)|Tests: (\d+), Assertions: (\d+))/,
+    );
+    if (summary) {
+      this.finishEntry();
+      this.section = null;
+      this.total = parseInt(summary[1] ?? summary[3]!, 10);
+      this.assertions = parseInt(summary[2] ?? summary[4]!, 10);
+      return;
+    }
+
+    const header = line.match(/^There (?:was|were) \d+ (.+?)(?: \(.*\))?:$/);
+    if (header) {
+      this.finishEntry();
+      this.section =
+        SECTIONS.find(([pattern]) => pattern.test(header[1]!))?.[1] ?? null;
+      return;
+    }
+
+    if (line === '--' || /^(?:FAILURES|ERRORS)!$|^OK, but /.test(line)) {
+      this.finishEntry();
+      this.section = null;
+      return;
+    }
+
+    const defect = this.section && line.match(/^\d+\) (\S+::.+)$/);
+    if (defect) {
+      this.startEntry(this.section!, this.stripArguments(defect[1]!), false);
+      return;
+    }
+
+    const testdoxClass = line.match(/^\S.*? \(([A-Z][\w\\]*)\)$/);
+    if (testdoxClass && !this.section) {
+      this.finishEntry();
+      // The class name is shown without its `Test` suffix in some versions
+      const className = testdoxClass[1]!;
+      this.testdoxClass = className.endsWith('Test')
+        ? className
+        : `${className}Test`;
+      return;
+    }
+
+    const testdoxTest = line.match(/^ (\S) (.+)$/);
+    const outcome = testdoxTest && TESTDOX_SYMBOLS[testdoxTest[1]!];
+    if (outcome && this.testdoxClass && !this.section) {
+      this.startEntry(
+        outcome,
+        `${this.testdoxClass}::${this.guessMethod(testdoxTest![2]!)}`,
+        true,
+      );
+      return;
+    }
+
+    if (this.entry?.testdox) {
+      // Testdox indents details behind box drawing characters
+      const detail = line.match(/^\s+[│├┐┴┘]\s?(.*)$/);
+      if (detail) {
+        this.addLine(detail[1]!);
+      } else {
+        this.finishEntry();
+      }
+    } else if (this.entry) {
+      this.addLine(line);
+    }
+  }
+
+  private startEntry(
+    outcome: TestOutcome,
+    name: string,
+    testdox: boolean,
+  ): void {
+    this.finishEntry();
+    this.entry = { name, outcome, testdox, lines: [], length: 0 };
+    if (testdox) {
+      this.testdox.push(this.entry);
+      if (outcome !== 'passed') {
+        this.approximateClasses.add(name.split('::')[0]!);
+      }
+    } else {
+      this.defects.push(this.entry);
+    }
+  }
+
+  private finishEntry(): void {
+    this.entry = null;
+  }
+
+  private addLine(line: string): void {
+    const entry = this.entry!;
+    if (entry.length >= this.maxOutputLength) return;
+
+    const text = line.substring(0, this.maxOutputLength - entry.length);
+    entry.lines.push(text);
+    entry.length += text.length + 1;
+  }
+
+  // PHPUnit 9 prints the data set values: `testFoo with data set #1 ('a', 2)`
+  private stripArguments(name: string): string {
+    const match = name.match(
+      /^(.+? with data set (?:#\d+|"(?:[^"\\]|\\.)*"))(?: \(.*\))?$/s,
+    );
+    return match ? match[1]! : name;
+  }
+
+  // `Creates project with data set #0` -> `testCreatesProject with data set #0`
+  private guessMethod(prettified: string): string {
+    const match = prettified.match(/^(.*?)( with data set (?:#\d+|".*"))?$/s);
+    const words = (match?.[1] ?? prettified).split(/[^A-Za-z0-9]+/);
+    const method = words
+      .filter(Boolean)
+      .map((word) => word[0]!.toUpperCase() + word.substring(1))
+      .join('');
+    return `test${method}${match?.[2] ?? ''}`;
+  }
+
+  private toResult(entry: OutputEntry): TestCaseResult {
+    const separator = entry.name.indexOf('::');
+    const fullName = entry.name.substring(0, separator);
+    const className = fullName.split('\\').pop() || fullName;
+    const { method, dataSet } = splitDataSet(
+      entry.name.substring(separator + 2),
+    );
+
+    const trace = entry.lines.join('\n').trim() || undefined;
+    // The test file is usually the last frame of the trace
+    const file =
+      trace
+        ?.match(/^\s*(\S+\.php):\d+\s*$/gm)
+        ?.map((frame) => frame.trim().replace(/:\d+$/, ''))
+        .find((frame) => frame.endsWith(`/${className}.php`)) ??
+      `${className}.php`;
+
+    return {
+      name: entry.name,
+      class: className,
+      method,
+      dataSet,
+      file,
+      line: 0,
+      error: trace?.split('\n')[0],
+      errorType: findExceptionClass(trace?.split('\n')[0]),
+      trace,
+      frame: trace ? findProjectFrame(trace, file) : undefined,
+      outcome: entry.outcome,
+    };
+  }
+}
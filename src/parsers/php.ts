@@ -0,0 +1,594 @@
+import * as fs from 'fs';
+import type {
+  PhpAttribute,
+  PhpAttributeArgument,
+  PhpClass,
+  PhpMethod,
+  PhpToken,
+} from '../types.js';
+
+const CLASS_KEYWORDS = new Set(['class', 'trait', 'interface', 'enum']);
+
+const MODIFIERS = new Set([
+  'public',
+  'protected',
+  'private',
+  'static',
+  'abstract',
+  'final',
+  'readonly',
+]);
+
+// Tokens after which `class` & co. are not a declaration (`Foo::class`, `new class`)
+const NON_DECLARATION_PREFIXES = new Set([
+  '::',
+  '->',
+  '?->',
+  'new',
+  'function',
+  'const',
+]);
+
+const NAME_REGEX =
+  /\\?[A-Za-z_\x80-\uffff][\w\x80-\uffff]*(?:\\[A-Za-z_\x80-\uffff][\w\x80-\uffff]*)*/y;
+const VARIABLE_REGEX = /\$[A-Za-z_\x80-\uffff][\w\x80-\uffff]*/y;
+const NUMBER_REGEX = /\d[\w.]*/y;
+const HEREDOC_REGEX = /<<<[ \t]*(['"]?)([A-Za-z_]\w*)\1\r?\n/y;
+
+/**
+ * Minimal PHP scanner: tokenizes source just enough to reliably find
+ * namespaces, imports, class-likes, methods, docblocks and attributes,
+ * without being fooled by comments, strings or heredocs.
+ */
+export class PhpSourceScanner {
+  scanFile(filePath: string): PhpClass[] {
+    return this.scan(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  scan(source: string): PhpClass[] {
+    const tokens = this.tokenize(source);
+    const classes: PhpClass[] = [];
+
+    let namespace = '';
+    let imports = new Map<string, string>();
+    let depth = 0;
+    let current: { declaration: PhpClass; depth: number } | null = null;
+    let opening: PhpClass | null = null; // declaration waiting for its `{`
+
+    // Docblock, attributes and modifiers of the next declaration
+    let docblock: string | undefined;
+    let attributes: PhpAttribute[] = [];
+    let modifiers: string[] = [];
+
+    const reset = () => {
+      docblock = undefined;
+      attributes = [];
+      modifiers = [];
+    };
+
+    const resolve = (name: string) =>
+      this.resolveName(name, namespace, imports, current?.declaration);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]!;
+
+      if (token.type === 'doc') {
+        docblock = token.value;
+        continue;
+      }
+
+      if (token.type === 'attribute') {
+        const group = this.parseAttributeGroup(tokens, i + 1, resolve);
+        attributes.push(...group.attributes);
+        i = group.end;
+        continue;
+      }
+
+      if (token.type === 'punct') {
+        if (token.value === '{') {
+          depth++;
+          if (opening) {
+            current = { declaration: opening, depth };
+            opening = null;
+          }
+        } else if (token.value === '}') {
+          depth--;
+          if (current && depth < current.depth) {
+            current = null;
+          }
+        }
+        reset();
+        continue;
+      }
+
+      if (token.type !== 'name') {
+        reset();
+        continue;
+      }
+
+      const keyword = token.value.toLowerCase();
+      const previous = tokens[i - 1]?.value.toLowerCase();
+      const next = tokens[i + 1];
+
+      if (!current && keyword === 'namespace') {
+        // `namespace Foo;`, `namespace Foo { ... }` or global `namespace { ... }`
+        namespace = next?.type === 'name' ? `${next.value}\\` : '';
+        imports = new Map();
+        if (next?.type === 'name') i++;
+        reset();
+        continue;
+      }
+
+      if (!current && keyword === 'use' && next?.type === 'name') {
+        i = this.parseImports(tokens, i + 1, imports);
+        reset();
+        continue;
+      }
+
+      if (
+        CLASS_KEYWORDS.has(keyword) &&
+        next?.type === 'name' &&
+        !NON_DECLARATION_PREFIXES.has(previous ?? '')
+      ) {
+        const declaration: PhpClass = {
+          name: next.value,
+          fullName: namespace + next.value,
+          kind: keyword as PhpClass['kind'],
+          line: token.line,
+          modifiers,
+          interfaces: [],
+          traits: [],
+          docblock,
+          attributes,
+          methods: [],
+        };
+
+        // Header up to the opening brace: `extends`, `implements`, enum backing type
+        let clause: 'extends' | 'implements' | null = null;
+        let j = i + 2;
+        for (; j < tokens.length && tokens[j]!.value !== '{'; j++) {
+          const headerToken = tokens[j]!;
+          const value = headerToken.value.toLowerCase();
+
+          if (value === 'extends' || value === 'implements') {
+            clause = value;
+          } else if (headerToken.type === 'name' && clause) {
+            const name = this.resolveName(
+              headerToken.value,
+              namespace,
+              imports,
+            );
+            if (clause === 'extends' && keyword === 'class') {
+              declaration.parent = name;
+            } else {
+              declaration.interfaces.push(name);
+            }
+          }
+        }
+
+        classes.push(declaration);
+        opening = declaration;
+        i = j - 1;
+        reset();
+        continue;
+      }
+
+      if (current && depth === current.depth) {
+        if (MODIFIERS.has(keyword) || keyword === 'var') {
+          modifiers.push(keyword);
+          continue;
+        }
+
+        if (keyword === 'use') {
+          i = this.parseTraitUses(tokens, i + 1, current.declaration, resolve);
+          reset();
+          continue;
+        }
+
+        if (keyword === 'function') {
+          const nameIndex = tokens[i + 1]?.value === '&' ? i + 2 : i + 1;
+          const nameToken = tokens[nameIndex];
+
+          if (nameToken?.type === 'name') {
+            const method: PhpMethod = {
+              name: nameToken.value,
+              line: nameToken.line,
+              modifiers,
+              docblock,
+              attributes,
+            };
+            current.declaration.methods.push(method);
+            i = nameIndex;
+          }
+          reset();
+          continue;
+        }
+      } else if (!current && MODIFIERS.has(keyword)) {
+        // `abstract`, `final` and `readonly` before a class
+        modifiers.push(keyword);
+        continue;
+      }
+
+      reset();
+    }
+
+    return classes;
+  }
+
+  tokenize(source: string): PhpToken[] {
+    const tokens: PhpToken[] = [];
+    const length = source.length;
+    let pos = 0;
+    let line = 1;
+    let inHtml = true; // Everything outside `<?php ... ?>` is inline HTML
+
+    const advance = (end: number) => {
+      for (let k = pos; k < end; k++) {
+        if (source.charCodeAt(k) === 10) line++;
+      }
+      pos = end;
+    };
+
+    const push = (type: PhpToken['type'], end: number) => {
+      tokens.push({ type, value: source.slice(pos, end), line });
+      advance(end);
+    };
+
+    const matchAt = (regex: RegExp): RegExpExecArray | null => {
+      regex.lastIndex = pos;
+      return regex.exec(source);
+    };
+
+    while (pos < length) {
+      if (inHtml) {
+        const open = source.indexOf('<?', pos);
+        if (open === -1) break;
+
+        let end = open + 2;
+        if (source.startsWith('php', end)) {
+          end += 3;
+        } else if (source[end] === '=') {
+          end += 1;
+        }
+        advance(end);
+        inHtml = false;
+        continue;
+      }
+
+      const char = source[pos]!;
+
+      if (/\s/.test(char)) {
+        advance(pos + 1);
+        continue;
+      }
+
+      if (source.startsWith('?>', pos)) {
+        advance(pos + 2);
+        inHtml = true;
+        continue;
+      }
+
+      if (source.startsWith('#[', pos)) {
+        push('attribute', pos + 2);
+        continue;
+      }
+
+      if (char === '#' || source.startsWith('//', pos)) {
+        // Line comments end at the newline or at a closing tag
+        let end = pos;
+        while (
+          end < length &&
+          source[end] !== '\n' &&
+          !source.startsWith('?>', end)
+        ) {
+          end++;
+        }
+        advance(end);
+        continue;
+      }
+
+      if (source.startsWith('/*', pos)) {
+        const close = source.indexOf('*/', pos + 2);
+        const end = close === -1 ? length : close + 2;
+        // `/**/` is a regular comment, not a docblock
+        if (source.startsWith('/**', pos) && end - pos > 4) {
+          push('doc', end);
+        } else {
+          advance(end);
+        }
+        continue;
+      }
+
+      if (char === "'" || char === '"' || char === '`') {
+        let end = pos + 1;
+        while (end < length && source[end] !== char) {
+          if (source[end] === '\\') end++;
+          end++;
+        }
+        push('string', Math.min(end + 1, length));
+        continue;
+      }
+
+      const heredoc = source.startsWith('<<<', pos) && matchAt(HEREDOC_REGEX);
+      if (heredoc) {
+        // PHP 7.3+ allows an indented closing identifier
+        const closing = new RegExp(`^[ \\t]*${heredoc[2]}\\b`, 'gm');
+        closing.lastIndex = pos + heredoc[0].length;
+        const close = closing.exec(source);
+        push('string', close ? close.index + close[0].length : length);
+        continue;
+      }
+
+      const variable = char === '$' && matchAt(VARIABLE_REGEX);
+      if (variable) {
+        push('variable', pos + variable[0].length);
+        continue;
+      }
+
+      const name = matchAt(NAME_REGEX);
+      if (name) {
+        push('name', pos + name[0].length);
+        continue;
+      }
+
+      const number = matchAt(NUMBER_REGEX);
+      if (number) {
+        push('number', pos + number[0].length);
+        continue;
+      }
+
+      if (source.startsWith('?->', pos)) {
+        push('punct', pos + 3);
+      } else if (source.startsWith('::', pos) || source.startsWith('->', pos)) {
+        push('punct', pos + 2);
+      } else {
+        push('punct', pos + 1);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Parse `Foo, Bar(args)]` following `#[`. Returns the index of the closing `]`.
+   */
+  private parseAttributeGroup(
+    tokens: PhpToken[],
+    start: number,
+    resolve: (name: string) => string,
+  ): { attributes: PhpAttribute[]; end: number } {
+    const attributes: PhpAttribute[] = [];
+    let i = start;
+
+    while (i < tokens.length) {
+      const token = tokens[i]!;
+
+      if (token.value === ']') {
+        break;
+      }
+
+      if (token.type === 'name') {
+        const attribute: PhpAttribute = {
+          name: resolve(token.value),
+          arguments: [],
+        };
+        attributes.push(attribute);
+
+        if (tokens[i + 1]?.value === '(') {
+          const args = this.parseArguments(tokens, i + 2, resolve);
+          attribute.arguments = args.arguments;
+          i = args.end;
+        }
+      }
+
+      i++;
+    }
+
+    return { attributes, end: i };
+  }
+
+  /**
+   * Split the tokens after `(` into arguments on top-level commas.
+   * Returns the index of the closing `)`.
+   */
+  private parseArguments(
+    tokens: PhpToken[],
+    start: number,
+    resolve: (name: string) => string,
+  ): { arguments: PhpAttributeArgument[]; end: number } {
+    const args: PhpAttributeArgument[] = [];
+    let argument: PhpToken[] = [];
+    let nesting = 0;
+    let i = start;
+
+    const flush = () => {
+      if (argument.length > 0) {
+        args.push(this.buildArgument(argument, resolve));
+      }
+      argument = [];
+    };
+
+    for (; i < tokens.length; i++) {
+      const token = tokens[i]!;
+
+      if (token.type === 'punct' && '([{'.includes(token.value)) {
+        nesting++;
+      } else if (token.type === 'punct' && ')]}'.includes(token.value)) {
+        if (nesting === 0) break;
+        nesting--;
+      } else if (nesting === 0 && token.value === ',') {
+        flush();
+        continue;
+      }
+
+      argument.push(token);
+    }
+
+    flush();
+    return { arguments: args, end: i };
+  }
+
+  private buildArgument(
+    tokens: PhpToken[],
+    resolve: (name: string) => string,
+  ): PhpAttributeArgument {
+    let name: string | undefined;
+
+    // Named argument: `name: value`
+    if (tokens[0]?.type === 'name' && tokens[1]?.value === ':') {
+      name = tokens[0].value;
+      tokens = tokens.slice(2);
+    }
+
+    let value = '';
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]!;
+      let text = token.value;
+
+      // `Foo::class` is resolved at compile time to the fully qualified name
+      if (
+        token.type === 'name' &&
+        tokens[i + 1]?.value === '::' &&
+        tokens[i + 2]?.value.toLowerCase() === 'class'
+      ) {
+        text = `\\${resolve(text)}`;
+      }
+
+      const previous = tokens[i - 1];
+      if (
+        previous &&
+        previous.type !== 'punct' &&
+        token.type !== 'punct' &&
+        previous.type !== 'attribute'
+      ) {
+        value += ' ';
+      }
+      value += text;
+    }
+
+    return { name, value };
+  }
+
+  /**
+   * Parse import clauses after `use` into `imports` (lowercased alias => name).
+   * Returns the index of the terminating `;`.
+   */
+  private parseImports(
+    tokens: PhpToken[],
+    start: number,
+    imports: Map<string, string>,
+  ): number {
+    let i = start;
+    const kind = tokens[i]?.value.toLowerCase();
+
+    // Functions and constants do not affect class name resolution
+    const skipAll = kind === 'function' || kind === 'const';
+
+    let prefix = '';
+    let name: string | null = null;
+
+    const add = () => {
+      if (name && !skipAll) {
+        const fullName = (prefix + name).replace(/^\\/, '');
+        const alias = fullName.split('\\').pop()!;
+        imports.set(alias.toLowerCase(), fullName);
+      }
+      name = null;
+    };
+
+    for (; i < tokens.length && tokens[i]!.value !== ';'; i++) {
+      const token = tokens[i]!;
+      const value = token.value.toLowerCase();
+
+      if (token.type === 'name' && value === 'as') {
+        const alias = tokens[i + 1]?.value;
+        if (name && alias && !skipAll) {
+          imports.set(alias.toLowerCase(), (prefix + name).replace(/^\\/, ''));
+        }
+        name = null;
+        i++;
+      } else if (token.value === '{') {
+        // Group use: `Foo\{Bar, Baz as Qux}`
+        prefix = `${name ?? ''}\\`;
+        name = null;
+      } else if (token.value === ',' || token.value === '}') {
+        add();
+      } else if (
+        token.type === 'name' &&
+        value !== 'function' &&
+        value !== 'const'
+      ) {
+        name = token.value;
+      }
+    }
+
+    add();
+    return i;
+  }
+
+  /**
+   * Parse `Foo, Bar;` or `Foo { ... }` after `use` inside a class body.
+   * Returns the index of the terminating `;` or `}`.
+   */
+  private parseTraitUses(
+    tokens: PhpToken[],
+    start: number,
+    declaration: PhpClass,
+    resolve: (name: string) => string,
+  ): number {
+    let i = start;
+
+    for (; i < tokens.length; i++) {
+      const token = tokens[i]!;
+
+      if (token.value === ';') {
+        return i;
+      }
+
+      if (token.value === '{') {
+        // Conflict resolution block
+        while (i < tokens.length && tokens[i]!.value !== '}') i++;
+        return i;
+      }
+
+      if (token.type === 'name') {
+        declaration.traits.push(resolve(token.value));
+      }
+    }
+
+    return i;
+  }
+
+  private resolveName(
+    name: string,
+    namespace: string,
+    imports: Map<string, string>,
+    current?: PhpClass,
+  ): string {
+    const lower = name.toLowerCase();
+
+    if ((lower === 'self' || lower === 'static') && current) {
+      return current.fullName;
+    }
+
+    if (lower === 'parent' && current?.parent) {
+      return current.parent;
+    }
+
+    if (name.startsWith('\\')) {
+      return name.substring(1);
+    }
+
+    if (lower.startsWith('namespace\\')) {
+      return namespace + name.substring('namespace\\'.length);
+    }
+
+    const [first, ...rest] = name.split('\\');
+    const imported = imports.get(first!.toLowerCase());
+    if (imported) {
+      return [imported, ...rest].join('\\');
+    }
+
+    return namespace + name;
+  }
+}
@@ -0,0 +1,186 @@
+import * as core from '@actions/core';
+import { XMLParser } from 'fast-xml-parser';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PhpSourceScanner } from './php.js';
+import type { PhpUnitConfigXML, PhpUnitPath, Psr4Mapping } from '../types.js';
+
+/**
+ * Index of a project's test classes, built up front from the `<testsuite>`
+ * entries of a phpunit.xml and the PSR-4 autoload maps of the composer.json
+ * next to it. Classes outside the test suites (base classes, traits) are
+ * located through the autoload maps.
+ */
+export class ProjectIndexer {
+  private readonly classes = new Map<string, string>(); // FQCN => file
+  private readonly testFiles = new Set<string>();
+  private autoload: Psr4Mapping[] = [];
+  private readonly scanner = new PhpSourceScanner();
+
+  load(configPath: string): void {
+    const baseDir = path.dirname(configPath);
+
+    for (const file of this.collectTestFiles(configPath)) {
+      this.testFiles.add(file);
+      for (const phpClass of this.scanner.scanFile(file)) {
+        this.classes.set(phpClass.fullName, file);
+      }
+    }
+
+    this.autoload = this.readAutoload(path.join(baseDir, 'composer.json'));
+    core.debug(
+      `Indexed ${this.classes.size} classes in ${this.testFiles.size} test files, ${this.autoload.length} PSR-4 prefixes`,
+    );
+  }
+
+  getTestFiles(): string[] {
+    return Array.from(this.testFiles);
+  }
+
+  /**
+   * Source file of a fully qualified class name, from the test suites first,
+   * then from the PSR-4 autoload maps.
+   */
+  locate(className: string): string | null {
+    className = className.replace(/^\\/, '');
+    const indexed = this.classes.get(className);
+    if (indexed) {
+      return indexed;
+    }
+
+    for (const { prefix, dirs } of this.autoload) {
+      if (!className.startsWith(prefix)) continue;
+
+      const relative = className.slice(prefix.length).split('\\').join('/');
+      for (const dir of dirs) {
+        const candidate = path.join(dir, `${relative}.php`);
+        if (fs.existsSync(candidate)) {
+          this.classes.set(className, candidate);
+          return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private collectTestFiles(configPath: string): string[] {
+    const baseDir = path.dirname(configPath);
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      isArray: (name) =>
+        ['testsuite', 'directory', 'file', 'exclude'].includes(name),
+    });
+    const config = parser.parse(
+      fs.readFileSync(configPath, 'utf-8'),
+    ) as PhpUnitConfigXML;
+
+    const files: string[] = [];
+    const suites = config.phpunit?.testsuites?.testsuite || [];
+
+    for (const suite of suites) {
+      const excluded = (suite.exclude || []).map((entry) =>
+        path.resolve(baseDir, this.pathText(entry)),
+      );
+
+      for (const directory of suite.directory || []) {
+        const dir = path.resolve(baseDir, this.pathText(directory));
+        const prefix = this.pathAttribute(directory, '@_prefix') || '';
+        const suffix = this.pathAttribute(directory, '@_suffix') || 'Test.php';
+
+        this.searchDir(
+          dir,
+          excluded,
+          (name) => name.startsWith(prefix) && name.endsWith(suffix),
+        ).forEach((file) => files.push(file));
+      }
+
+      for (const file of suite.file || []) {
+        const filePath = path.resolve(baseDir, this.pathText(file));
+        if (fs.existsSync(filePath)) {
+          files.push(filePath);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private searchDir(
+    dir: string,
+    excluded: string[],
+    matches: (name: string) => boolean,
+  ): string[] {
+    if (!fs.existsSync(dir) || excluded.includes(dir)) return [];
+    if (fs.lstatSync(dir).isSymbolicLink()) {
+      core.debug(`Skipping symlink: ${dir}`);
+      return [];
+    }
+
+    const files: string[] = [];
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        files.push(...this.searchDir(fullPath, excluded, matches));
+      } else if (
+        entry.isFile() &&
+        matches(entry.name) &&
+        !excluded.includes(fullPath)
+      ) {
+        files.push(fullPath);
+      }
+    }
+
+    return files.sort();
+  }
+
+  /**
+   * PSR-4 prefixes of `autoload` and `autoload-dev`, longest prefix first so
+   * the most specific namespace wins.
+   */
+  private readAutoload(composerPath: string): Psr4Mapping[] {
+    if (!fs.existsSync(composerPath)) {
+      return [];
+    }
+
+    let composer: Record<string, { 'psr-4'?: Record<string, unknown> }>;
+    try {
+      composer = JSON.parse(fs.readFileSync(composerPath, 'utf-8'));
+    } catch (error) {
+      core.warning(`Failed to parse ${composerPath}: ${error}`);
+      return [];
+    }
+
+    const baseDir = path.dirname(composerPath);
+    const mappings: Psr4Mapping[] = [];
+
+    for (const section of ['autoload', 'autoload-dev']) {
+      const psr4 = composer[section]?.['psr-4'] || {};
+
+      for (const [prefix, dirs] of Object.entries(psr4)) {
+        mappings.push({
+          prefix,
+          dirs: (Array.isArray(dirs) ? dirs : [dirs]).map((dir) =>
+            path.resolve(baseDir, String(dir)),
+          ),
+        });
+      }
+    }
+
+    return mappings.sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  private pathText(entry: PhpUnitPath): string {
+    return (typeof entry === 'string' ? entry : entry['#text'] || '').trim();
+  }
+
+  private pathAttribute(
+    entry: PhpUnitPath,
+    attribute: '@_prefix' | '@_suffix',
+  ): string | undefined {
+    return typeof entry === 'string' ? undefined : entry[attribute];
+  }
+}
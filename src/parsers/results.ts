@@ -0,0 +1,96 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import { EventLogParser } from './events.js';
+import { JUnitParser, mergeReports } from './junit.js';
+import { TeamCityParser } from './teamcity.js';
+import type { JUnitReport, ResultFormat } from '../types.js';
+
+const DETECT_LENGTH = 4096;
+
+/**
+ * Format of a result file from its first bytes, null when it is empty or
+ * not a known format.
+ */
+export function detectResultFormat(filePath: string): ResultFormat | null {
+  const buffer = Buffer.alloc(DETECT_LENGTH);
+  const fd = fs.openSync(filePath, 'r');
+  let head: string;
+  try {
+    head = buffer
+      .subarray(0, fs.readSync(fd, buffer, 0, DETECT_LENGTH, 0))
+      .toString('utf-8');
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (/^\s*<(?:\?xml|testsuites?\b)/.test(head)) return 'junit';
+  if (head.includes('##teamcity[')) return 'teamcity';
+  if (/^(?:\[[^\]]*\] )*(?:PHPUnit Started|Test Runner )/m.test(head)) {
+    return 'events';
+  }
+  return null;
+}
+
+/**
+ * Reads test results in any supported format. JUnit reports come first when
+ * merging, as they have the most detail about tests that are also in a log.
+ */
+export class ResultParser {
+  private readonly format: ResultFormat | 'auto';
+  private readonly parsers: Record<
+    ResultFormat,
+    { parseReport(filePath: string): JUnitReport }
+  >;
+
+  constructor(
+    format: ResultFormat | 'auto' = 'auto',
+    junit = new JUnitParser(),
+  ) {
+    this.format = format;
+    this.parsers = {
+      junit,
+      teamcity: new TeamCityParser(),
+      events: new EventLogParser(),
+    };
+  }
+
+  /**
+   * Merged results of the files, skipping files that cannot be read, e.g.
+   * a JUnit report cut short by a crash. `junitPaths` are read as JUnit
+   * whatever the configured format, e.g. the report added by the action.
+   */
+  parseReports(filePaths: string[], junitPaths: string[] = []): JUnitReport {
+    const reports: { format: ResultFormat; report: JUnitReport }[] = [];
+
+    for (const filePath of filePaths) {
+      try {
+        const format = junitPaths.includes(filePath)
+          ? 'junit'
+          : this.format === 'auto'
+            ? detectResultFormat(filePath)
+            : this.format;
+        if (!format) {
+          core.debug(`Skipping ${filePath}: empty or unknown result format`);
+          continue;
+        }
+
+        core.debug(`Parsing ${filePath} as ${format}`);
+        reports.push({
+          format,
+          report: this.parsers[format].parseReport(filePath),
+        });
+      } catch (error) {
+        core.warning(
+          `Could not parse test results from ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const sorted = [
+      ...reports.filter(({ format }) => format === 'junit'),
+      ...reports.filter(({ format }) => format !== 'junit'),
+    ].map(({ report }) => report);
+
+    return sorted.length === 1 ? sorted[0]! : mergeReports(sorted);
+  }
+}
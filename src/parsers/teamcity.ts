@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import {
+  OUTCOME_SEVERITY,
+  UNFINISHED_TEST_ERROR,
+  countTestCases,
+  findExceptionClass,
+  findProjectFrame,
+  splitDataSet,
+} from './junit.js';
+import type { JUnitReport, TestCaseResult, TestOutcome } from '../types.js';
+
+interface RunningTest {
+  name: string;
+  file: string;
+  outcome?: TestOutcome;
+  message?: string;
+  details?: string;
+  duration?: number;
+  finished: boolean;
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  x: '\u0085',
+  l: '\u2028',
+  p: '\u2029',
+};
+
+export function unescapeTeamCity(value: string): string {
+  return value.replace(/\|(0x[0-9a-f]{4}|.)/gi, (_, escaped: string) =>
+    escaped.length > 1
+      ? String.fromCharCode(parseInt(escaped.substring(2), 16))
+      : (ESCAPES[escaped] ?? escaped),
+  );
+}
+
+/**
+ * Parses TeamCity service messages (`--teamcity` / `--log-teamcity`). Tests
+ * are matched by flow id and name, and their class and file are read from the
+ * `php_qn://` location hint.
+ */
+export class TeamCityParser {
+  parseReport(logPath: string): JUnitReport {
+    return this.parseLog(fs.readFileSync(logPath, 'utf-8'));
+  }
+
+  parseLog(log: string): JUnitReport {
+    const tests = new Map<string, RunningTest>(); // flowId + name
+    const suites = new Map<string, string[]>(); // flowId -> suite names
+    let total = 0;
+
+    for (const line of log.split(/\r?\n/)) {
+      const start = line.indexOf('##teamcity[');
+      if (start === -1) continue;
+
+      const match = line
+        .substring(start)
+        .match(/^##teamcity\[([\w.-]+)((?:\s+[\w.-]+='(?:[^'|]|\|.)*')*)\s*\]/);
+      if (!match) continue;
+
+      const type = match[1]!;
+      const attributes: Record<string, string> = {};
+      for (const attribute of match[2]!.matchAll(
+        /([\w.-]+)='((?:[^'|]|\|.)*)'/g,
+      )) {
+        attributes[attribute[1]!] = unescapeTeamCity(attribute[2]!);
+      }
+
+      const flowId = attributes['flowId'] || '';
+      const suiteStack = suites.get(flowId) || [];
+      suites.set(flowId, suiteStack);
+
+      if (type === 'testCount') {
+        total += parseInt(attributes['count'] || '0', 10) || 0;
+        continue;
+      }
+      if (type === 'testSuiteStarted') {
+        suiteStack.push(attributes['name'] || '');
+        continue;
+      }
+      if (type === 'testSuiteFinished') {
+        suiteStack.pop();
+        continue;
+      }
+
+      const name = attributes['name'];
+      if (!name || !type.startsWith('test')) continue;
+
+      const key = `${flowId}\n${name}`;
+      let test = tests.get(key);
+      if (!test || (type === 'testStarted' && test.finished)) {
+        test = {
+          ...this.locate(name, attributes['locationHint'], suiteStack),
+          finished: false,
+        };
+        tests.delete(key);
+        tests.set(key, test);
+      }
+
+      switch (type) {
+        case 'testFailed':
+          this.setOutcome(test, 'failed', attributes);
+          break;
+        case 'testIgnored':
+          this.setOutcome(
+            test,
+            /\bincomplete\b/i.test(attributes['message'] || '')
+              ? 'incomplete'
+              : 'skipped',
+            attributes,
+          );
+          break;
+        case 'testFinished':
+          test.finished = true;
+          test.duration = attributes['duration']
+            ? parseInt(attributes['duration'], 10)
+            : undefined;
+          break;
+      }
+    }
+
+    const testCases = [...tests.values()].map((test) => this.toResult(test));
+    return { testCases, stats: countTestCases(testCases, total) };
+  }
+
+  // `php_qn://<file>::\<class>::<name>`, or the enclosing suite without hint
+  private locate(
+    name: string,
+    locationHint: string | undefined,
+    suiteStack: string[],
+  ): { name: string; file: string } {
+    const hint = locationHint?.match(/^php_qn:\/\/(.*?)::\\?([^:]+)::/s);
+    if (hint) {
+      return { name: `${hint[2]}::${name}`, file: hint[1]! };
+    }
+
+    // Data provider suites are named `Class::method`
+    const suite = suiteStack[suiteStack.length - 1] || '';
+    return { name: `${suite.split('::')[0]}::${name}`, file: '' };
+  }
+
+  private setOutcome(
+    test: RunningTest,
+    outcome: TestOutcome,
+    attributes: Record<string, string>,
+  ): void {
+    if (
+      test.outcome &&
+      OUTCOME_SEVERITY[test.outcome] >= OUTCOME_SEVERITY[outcome]
+    ) {
+      return;
+    }
+
+    test.outcome = outcome;
+    test.message = attributes['message']?.trim() || undefined;
+    test.details = attributes['details']?.trim() || undefined;
+  }
+
+  private toResult(test: RunningTest): TestCaseResult {
+    const separator = test.name.indexOf('::');
+    const className = test.name.substring(0, separator);
+    const { method, dataSet } = splitDataSet(
+      test.name.substring(separator + 2),
+    );
+    const interrupted = !test.finished && !test.outcome;
+    const outcome = interrupted ? 'error' : test.outcome || 'passed';
+    const error = interrupted ? UNFINISHED_TEST_ERROR : test.message;
+    const trace =
+      [test.message, test.details].filter(Boolean).join('\n\n') || undefined;
+
+    return {
+      name: test.name,
+      class: className.split('\\').pop() || className,
+      method,
+      dataSet,
+      file: test.file,
+      line: 0,
+      error,
+      errorType: interrupted ? undefined : findExceptionClass(test.message),
+      trace,
+      frame: trace ? findProjectFrame(trace, test.file) : undefined,
+      time: test.duration !== undefined ? test.duration / 1000 : undefined,
+      outcome,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+export interface XmlHandler {
+  openTag(name: string, attributes: Record<string, string>): void;
+  closeTag(name: string): void;
+  text(text: string): void; // Decoded text or CDATA, possibly in several parts
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi,
+    (match, entity: string) => {
+      if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    },
+  );
+}
+
+// Escape text or an attribute value. Control characters are dropped, XML 1.0
+// does not allow them even as references
+export function encodeEntities(text: string, attribute = false): string {
+  const encoded = text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+  if (!attribute) return encoded;
+
+  // Parsers normalize whitespace in attributes unless it is encoded
+  return encoded
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+/**
+ * Streaming XML tokenizer. Chunks can be split anywhere; text is passed on as
+ * soon as it arrives, so a large `<system-out>` never has to be buffered whole.
+ * DTDs, processing instructions and comments are skipped, namespaces are kept
+ * as part of the names.
+ */
+export class XmlStreamParser {
+  private readonly handler: XmlHandler;
+  private buffer = '';
+  private mode: 'markup' | 'cdata' | 'comment' = 'markup';
+
+  constructor(handler: XmlHandler) {
+    this.handler = handler;
+  }
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.process();
+  }
+
+  end(): void {
+    this.process();
+
+    if (this.mode !== 'markup' || this.buffer.includes('<')) {
+      throw new Error('Unexpected end of XML document');
+    }
+    if (this.buffer) {
+      this.handler.text(decodeEntities(this.buffer));
+      this.buffer = '';
+    }
+  }
+
+  private process(): void {
+    const buffer = this.buffer;
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      if (this.mode === 'cdata' || this.mode === 'comment') {
+        const terminator = this.mode === 'cdata' ? ']]>' : '-->';
+        const end = buffer.indexOf(terminator, pos);
+
+        // Keep a possibly split terminator for the next chunk
+        const available = end === -1 ? Math.max(pos, buffer.length - 2) : end;
+        if (this.mode === 'cdata' && available > pos) {
+          this.handler.text(buffer.slice(pos, available));
+        }
+        if (end === -1) {
+          pos = available;
+          break;
+        }
+
+        pos = end + terminator.length;
+        this.mode = 'markup';
+        continue;
+      }
+
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) {
+        // Keep a possibly split entity for the next chunk
+        const amp = buffer.lastIndexOf('&');
+        const end =
+          amp >= pos && amp > buffer.length - 12 && !buffer.includes(';', amp)
+            ? amp
+            : buffer.length;
+        if (end > pos) {
+          this.handler.text(decodeEntities(buffer.slice(pos, end)));
+        }
+        pos = end;
+        break;
+      }
+
+      if (lt > pos) {
+        this.handler.text(decodeEntities(buffer.slice(pos, lt)));
+        pos = lt;
+      }
+
+      const rest = buffer.slice(pos, pos + 9);
+      if (rest === '<![CDATA[') {
+        this.mode = 'cdata';
+        pos += 9;
+        continue;
+      }
+      if (rest.startsWith('<!--')) {
+        this.mode = 'comment';
+        pos += 4;
+        continue;
+      }
+      if ('<![CDATA['.startsWith(rest) || '<!--'.startsWith(rest)) {
+        break; // Wait for more input to tell them apart
+      }
+
+      const end = this.findTagEnd(buffer, pos);
+      if (end === -1) break;
+
+      this.handleTag(buffer.slice(pos + 1, end));
+      pos = end + 1;
+    }
+
+    this.buffer = buffer.slice(pos);
+  }
+
+  private findTagEnd(buffer: string, start: number): number {
+    let quote = '';
+
+    for (let i = start + 1; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private handleTag(content: string): void {
+    // <?xml ... ?> and <!DOCTYPE ...>
+    if (content[0] === '?' || content[0] === '!') return;
+
+    if (content[0] === '/') {
+      this.handler.closeTag(content.substring(1).trim());
+      return;
+    }
+
+    const selfClosing = content.endsWith('/');
+    const body = selfClosing ? content.slice(0, -1) : content;
+    const name = body.match(/^[^\s/>]+/)?.[0] ?? '';
+    const attributes: Record<string, string> = {};
+
+    for (const match of body
+      .substring(name.length)
+      .matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[match[1]!] = decodeEntities(match[2] ?? match[3] ?? '');
+    }
+
+    this.handler.openTag(name, attributes);
+    if (selfClosing) {
+      this.handler.closeTag(name);
+    }
+  }
+}
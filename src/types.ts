@@ -2,65 +2,220 @@ export interface ActionInputs {
   command: string;
   maxAttempts: number;
   retryWaitSeconds: number;
+  retryBackoff: RetryBackoff;
+  retryMaxWaitSeconds: number; // 0 = no limit
   shell: string;
   timeoutMinutes: number;
   testDir: string;
   githubToken?: string;
   jobId?: string;
+  dependencyGraph: DependencyGraphFormat;
+  failOnInvalidDependencies: boolean;
+  dependencyIndex: boolean;
+  phpunitConfig?: string;
+  junitPaths: string[]; // Reports written by the command, may be globs
+  mergedJunitPath?: string;
+  resultFormat: ResultFormat | 'auto';
+  parseOutput: boolean;
+  maxTestRetries: number; // 0 = retried on every attempt
+  dropHardFailures: boolean;
+  retryOn: RegExp[]; // Failures to retry, all when empty
+  neverRetryOn: RegExp[];
+  maxFailureRatio: number; // 0-1, 1 = no limit
+  maxFailedTests: number; // 0 = no limit
+  beforeRetryCommand?: string;
+  afterAttemptCommand?: string;
+  hookFailure: HookFailureMode;
+  healthCheckCommand?: string;
+  healthCheckUrl?: string;
+  healthCheckTimeoutSeconds: number;
+  healthCheckIntervalSeconds: number;
+  retryIsolation: RetryIsolation;
+  retryWorkers: number;
 }
 
+export type DependencyGraphFormat = 'none' | 'dot' | 'mermaid' | 'json';
+
+// What a failing hook command does: warn, stop retrying or fail the action
+export type HookFailureMode = 'warn' | 'stop' | 'fail';
+
+// How retried tests run: together, with --process-isolation or one PHPUnit run per dependency group
+export type RetryIsolation = 'none' | 'process' | 'groups';
+
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential' | 'decorrelated';
+
+// JUnit XML, TeamCity service messages or the PHPUnit 10+ text event log
+export type ResultFormat = 'junit' | 'teamcity' | 'events';
+
 export interface FailedTest {
   name: string; // "Tests\\E2E\\...::testFoo"
   class: string; // "ProjectsConsoleClientTest"
-  method: string; // "testFoo"
+  method: string; // "testFoo", without data set
+  dataSet?: string; // Data set in PHPUnit filter notation: "#3" or "@invalid email"
   file: string; // "/usr/src/code/vendor/..."
   line?: number;
   error?: string; // Error message from JUnit XML
+  errorType?: string; // Exception class, e.g. "PHPUnit\\Framework\\ExpectationFailedException"
+  trace?: string; // Full failure text: message and stack trace
+  frame?: StackFrame; // First in-project frame of the trace
+  systemOut?: string;
+  systemErr?: string;
   time?: number; // Execution time in seconds from JUnit XML
 }
 
-export interface TestCase {
-  '@_class'?: string;
-  '@_name'?: string;
-  '@_file'?: string;
-  '@_line'?: string;
-  '@_time'?: string;
-  failure?: unknown;
-  error?: unknown;
+export interface StackFrame {
+  file: string; // Path as reported by PHPUnit, e.g. a container path
+  line: number;
+}
+
+export type TestOutcome =
+  | 'passed'
+  | 'failed'
+  | 'error'
+  | 'skipped'
+  | 'incomplete'
+  | 'risky'
+  | 'warning';
+
+export interface TestCaseResult extends FailedTest {
+  outcome: TestOutcome;
+}
+
+export interface PhpToken {
+  type:
+    | 'name'
+    | 'variable'
+    | 'string'
+    | 'number'
+    | 'doc'
+    | 'attribute'
+    | 'punct';
+  value: string; // Source text, e.g. "Foo\\Bar", "'text'", "/** ... */" or "#["
+  line: number;
+}
+
+export interface PhpAttributeArgument {
+  name?: string; // Named argument, e.g. "methodName"
+  value: string; // Source text, `Foo::class` resolved to "\\Fully\\Qualified\\Foo::class"
+}
+
+export interface PhpAttribute {
+  name: string; // Fully qualified, e.g. "PHPUnit\\Framework\\Attributes\\Depends"
+  arguments: PhpAttributeArgument[];
 }
 
-export interface TestSuite {
-  '@_tests'?: string;
-  '@_failures'?: string;
-  '@_errors'?: string;
-  '@_assertions'?: string;
-  testsuite?: TestSuite | TestSuite[];
-  testcase?: TestCase | TestCase[];
+export interface PhpMethod {
+  name: string;
+  line: number;
+  modifiers: string[]; // "public", "static", ...
+  docblock?: string;
+  attributes: PhpAttribute[];
+}
+
+export interface PhpClass {
+  name: string; // "ProjectsConsoleClientTest"
+  fullName: string; // "Tests\\E2E\\...\\ProjectsConsoleClientTest"
+  kind: 'class' | 'trait' | 'interface' | 'enum';
+  line: number;
+  modifiers: string[]; // "abstract", "final", "readonly"
+  parent?: string; // Fully qualified parent class name
+  interfaces: string[]; // Fully qualified names
+  traits: string[]; // Fully qualified names of used traits
+  docblock?: string;
+  attributes: PhpAttribute[];
+  methods: PhpMethod[];
 }
 
-export interface TestSuites {
-  '@_tests'?: string;
-  '@_failures'?: string;
-  '@_errors'?: string;
-  '@_assertions'?: string;
-  testsuite?: TestSuite | TestSuite[];
+export interface TestMethodDeclaration {
+  name: string; // "testFoo"
+  line: number;
+  dependencies: string[]; // "testCreate" (same class), "Tests\\...::testFoo" or "Tests\\...::class"
 }
 
-export interface JUnitXML {
-  testsuites?: TestSuites;
-  testsuite?: TestSuite;
+export interface TestClassDeclaration {
+  name: string; // Fully qualified class or trait name
+  file: string; // Local path of the parsed source file
+  parent?: string; // Fully qualified parent class name
+  traits: string[]; // Fully qualified names of used traits
+  methods: TestMethodDeclaration[];
+}
+
+export interface DependencyDiagnostic {
+  type: 'cycle' | 'unknown-target' | 'unresolved-class';
+  test: string; // "Tests\\...::testFoo" declaring the dependency
+  target?: string; // Dependency that could not be resolved
+  cycle?: string[]; // Closed path, e.g. [A, B, A]
+  file?: string; // Local path of the file declaring the test
+  line?: number;
+  message: string;
+}
+
+export interface DependencyGraphNode {
+  id: string; // "Tests\\...::testFoo", or "Tests\\...::class" for a whole class
+  status: 'failed' | 'flaky' | 'passed';
+}
+
+export interface DependencyGraphEdge {
+  from: string; // Dependent test id
+  to: string; // Id of the test it depends on
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
+
+export interface JUnitReport {
+  testCases: TestCaseResult[];
+  stats: FirstAttemptStats;
+}
+
+// <directory suffix="Test.php">tests/Unit</directory>, or plain text
+export type PhpUnitPath =
+  | string
+  | { '#text'?: string; '@_prefix'?: string; '@_suffix'?: string };
+
+export interface PhpUnitTestSuite {
+  '@_name'?: string;
+  directory?: PhpUnitPath[];
+  file?: PhpUnitPath[];
+  exclude?: PhpUnitPath[];
+}
+
+export interface PhpUnitConfigXML {
+  phpunit?: {
+    testsuites?: {
+      testsuite?: PhpUnitTestSuite[];
+    };
+  };
+}
+
+export interface Psr4Mapping {
+  prefix: string; // "Tests\\E2E\\"
+  dirs: string[]; // Absolute directories
 }
 
 export interface AttemptStat {
   attempt: number;
   failed: number;
   retried: number;
+  dropped?: number; // Failures no longer retried after this attempt
 }
 
 export interface FirstAttemptStats {
   total: number;
   failures: number;
   assertions: number;
+  skipped: number;
+  incomplete: number;
+  risky: number;
+  warnings: number;
+}
+
+export interface DroppedTest {
+  test: FailedTest;
+  reason: 'not-retryable' | 'hard-failure' | 'retry-limit';
+  attempt: number; // Attempt after which the test was no longer retried
 }
 
 export interface FlakyTest {
@@ -0,0 +1,105 @@
+import type {
+  DependencyGraph,
+  DependencyGraphFormat,
+  DependencyGraphNode,
+} from '../types.js';
+
+export const GRAPH_FILE_EXTENSIONS: Record<
+  Exclude<DependencyGraphFormat, 'none'>,
+  string
+> = {
+  dot: 'dot',
+  mermaid: 'mmd',
+  json: 'json',
+};
+
+const NODE_COLORS: Record<
+  DependencyGraphNode['status'],
+  { fill: string; stroke: string }
+> = {
+  failed: { fill: '#f8d7da', stroke: '#dc3545' },
+  flaky: { fill: '#fff3cd', stroke: '#ffc107' },
+  passed: { fill: '#d4edda', stroke: '#28a745' },
+};
+
+/**
+ * Short label without namespace, e.g. "ProjectsConsoleClientTest::testFoo"
+ */
+function getNodeLabel(id: string): string {
+  const [className, method] = id.split('::');
+  const shortName = className!.split('\\').pop()!;
+  return method === 'class'
+    ? `${shortName} (all tests)`
+    : `${shortName}::${method}`;
+}
+
+/**
+ * Graphviz DOT, edges point from a dependency to its dependents (execution order)
+ */
+export function formatGraphAsDot(graph: DependencyGraph): string {
+  const quote = (value: string) =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const { fill, stroke } = NODE_COLORS[node.status];
+    lines.push(
+      `  ${quote(node.id)} [label=${quote(getNodeLabel(node.id))}, tooltip=${quote(node.id)}, fillcolor="${fill}", color="${stroke}"];`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.to)} -> ${quote(edge.from)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart, renderable in PR comments and job summaries
+ */
+export function formatGraphAsMermaid(graph: DependencyGraph): string {
+  // Mermaid ids cannot contain backslashes or colons
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    const label = getNodeLabel(node.id).replace(/"/g, '#quot;');
+    lines.push(`  ${ids.get(node.id)}["${label}"]:::${node.status}`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.to)} --> ${ids.get(edge.from)}`);
+  }
+
+  for (const [status, { fill, stroke }] of Object.entries(NODE_COLORS)) {
+    lines.push(`  classDef ${status} fill:${fill},stroke:${stroke}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatGraphAsJson(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+export function formatDependencyGraph(
+  graph: DependencyGraph,
+  format: Exclude<DependencyGraphFormat, 'none'>,
+): string {
+  switch (format) {
+    case 'dot':
+      return formatGraphAsDot(graph);
+    case 'mermaid':
+      return formatGraphAsMermaid(graph);
+    case 'json':
+      return formatGraphAsJson(graph);
+  }
+}
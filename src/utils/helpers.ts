@@ -2,7 +2,9 @@ import * as core from '@actions/core';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { spawnSync } from 'child_process';
+import { spawn, spawnSync } from 'child_process';
+import kill from 'tree-kill';
+import type { FailedTest, HookFailureMode, RetryBackoff } from '../types.js';
 
 export async function wait(ms: number, debug = true): Promise<void> {
   const waitStart = Date.now();
@@ -13,6 +15,237 @@ export async function wait(ms: number, debug = true): Promise<void> {
   }
 }
 
+/**
+ * Delay before the given retry (1 = after the first attempt). Decorrelated
+ * jitter picks a random delay between the base and three times the previous
+ * one, spreading out jobs that hit the same rate-limited service.
+ */
+export function getRetryDelay(
+  backoff: RetryBackoff,
+  retry: number,
+  baseMs: number,
+  maxMs = 0,
+  previousMs = baseMs,
+): number {
+  let delayMs: number;
+  switch (backoff) {
+    case 'fixed':
+      delayMs = baseMs;
+      break;
+    case 'linear':
+      delayMs = baseMs * retry;
+      break;
+    case 'exponential':
+      delayMs = baseMs * 2 ** (retry - 1);
+      break;
+    case 'decorrelated':
+      delayMs = baseMs + Math.random() * Math.max(0, previousMs * 3 - baseMs);
+      break;
+  }
+
+  return Math.round(maxMs > 0 ? Math.min(delayMs, maxMs) : delayMs);
+}
+
+/**
+ * Poll `check` every `intervalMs` until it passes or `timeoutMs` is over.
+ * Each check gets the time left, to limit how long it may take.
+ */
+export async function waitUntilHealthy(
+  check: (timeLeftMs: number) => Promise<boolean>,
+  timeoutMs: number,
+  intervalMs: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (let poll = 1; ; poll++) {
+    if (await check(Math.max(deadline - Date.now(), 1000))) {
+      core.debug(`Health check passed after ${poll} poll(s)`);
+      return true;
+    }
+    if (Date.now() + intervalMs >= deadline) {
+      return false;
+    }
+    await wait(intervalMs, false);
+  }
+}
+
+// Exit code 0 within the timeout, the process tree is killed past it
+export function isCommandHealthy(
+  command: string,
+  executable: string,
+  timeoutMs: number,
+): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    const child = spawn(command, { shell: executable, stdio: 'pipe' });
+    let timedOut = false;
+    let stderr = '';
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      if (child.pid) {
+        kill(child.pid, 'SIGTERM');
+      }
+    }, timeoutMs);
+
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timeout);
+      core.debug(`Health check command failed: ${error.message}`);
+      resolve(false);
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timeout);
+      if (timedOut || code !== 0) {
+        core.debug(
+          `Health check command failed: ${timedOut ? `timed out after ${timeoutMs}ms` : stderr.trim() || `exit code ${code}`}`,
+        );
+      }
+      resolve(!timedOut && code === 0);
+    });
+  });
+}
+
+/**
+ * Run a before_retry_command or after_attempt_command hook, with the attempt,
+ * its exit code and a file listing `tests` in its environment. Returns false
+ * when the hook failed and should stop the retries, throws with `fail`.
+ */
+export async function runHookCommand(
+  input: 'before_retry_command' | 'after_attempt_command',
+  command: string,
+  run: { attempt: number; exitCode: number; tests: FailedTest[] },
+  options: {
+    executable: string;
+    hookFailure: HookFailureMode;
+    timeoutMs: number; // No limit when 0
+  },
+): Promise<boolean> {
+  const testsFile = path.join(
+    process.env.RUNNER_TEMP || os.tmpdir(),
+    'phpunit-retry-tests.txt',
+  );
+  fs.writeFileSync(testsFile, run.tests.map((t) => `${t.name}\n`).join(''));
+
+  core.info(`Running ${input}`);
+  const failure = await new Promise<string | null>((resolve) => {
+    const child = spawn(command, {
+      shell: options.executable,
+      stdio: ['ignore', 'inherit', 'inherit'],
+      env: {
+        ...process.env,
+        PHPUNIT_RETRY_ATTEMPT: run.attempt.toString(),
+        PHPUNIT_RETRY_EXIT_CODE: run.exitCode.toString(),
+        PHPUNIT_RETRY_TESTS_FILE: testsFile,
+      },
+    });
+    let timedOut = false;
+
+    const timeout =
+      options.timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            if (child.pid) {
+              kill(child.pid, 'SIGTERM');
+            }
+          }, options.timeoutMs)
+        : null;
+
+    child.on('error', (error) => {
+      if (timeout) clearTimeout(timeout);
+      resolve(`${input} failed: ${error.message}`);
+    });
+
+    child.on('close', (code) => {
+      if (timeout) clearTimeout(timeout);
+      if (timedOut) {
+        resolve(`${input} exceeded the timeout of ${options.timeoutMs}ms`);
+      } else {
+        resolve(code ? `${input} exited with code ${code}` : null);
+      }
+    });
+  });
+
+  if (!failure) {
+    return true;
+  }
+  switch (options.hookFailure) {
+    case 'warn':
+      core.warning(failure);
+      return true;
+    case 'stop':
+      core.warning(`${failure}, not retrying`);
+      return false;
+    case 'fail':
+      throw new Error(failure);
+  }
+}
+
+// A 2xx response within the timeout
+export async function isUrlHealthy(
+  url: string,
+  timeoutMs: number,
+): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    if (!response.ok) {
+      core.debug(`Health check URL returned ${response.status}`);
+    }
+    return response.ok;
+  } catch (error) {
+    core.debug(
+      `Health check URL failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return false;
+  }
+}
+
+/**
+ * Pack groups of tests into at most `count` batches of similar size, largest
+ * groups first.
+ */
+export function balanceGroups<T>(groups: T[][], count: number): T[][] {
+  const batches: T[][] = Array.from(
+    { length: Math.min(count, groups.length) },
+    () => [],
+  );
+
+  for (const group of [...groups].sort((a, b) => b.length - a.length)) {
+    const smallest = batches.reduce((min, batch) =>
+      batch.length < min.length ? batch : min,
+    );
+    smallest.push(...group);
+  }
+
+  return batches;
+}
+
+/**
+ * Prefix every line of streamed output, e.g. to tell parallel runs apart.
+ * An incomplete last line waits for the next chunk, or the end.
+ */
+export function createLinePrefixer(
+  prefix: string,
+): (chunk: string, end?: boolean) => string {
+  let partial = '';
+
+  return (chunk, end = false) => {
+    const lines = (partial + chunk).split('\n');
+    partial = lines.pop()!;
+    if (end && partial) {
+      lines.push(partial);
+      partial = '';
+    }
+    return lines.map((line) => `${prefix}${line}\n`).join('');
+  };
+}
+
 /**
  * Sleep for a random duration to avoid race conditions when multiple jobs
  * update the same resource simultaneously.
@@ -195,3 +428,48 @@ export function findTestFileInWorkspace(
 
   return matches.length > 0 ? matches[0]! : null;
 }
+
+// Find the PHPUnit configuration, phpunit.xml or phpunit.xml.dist in the
+// workspace root unless a path relative to the workspace is given
+export function findPhpUnitConfig(configPath?: string): string | null {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const candidates = configPath
+    ? [configPath]
+    : ['phpunit.xml', 'phpunit.xml.dist'];
+
+  for (const candidate of candidates) {
+    const fullPath = path.resolve(workspace, candidate);
+    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+      return fullPath;
+    }
+  }
+
+  return null;
+}
+
+// Find JUnit reports matching paths or glob patterns relative to the
+// workspace, skipping reports last written before `since` (stale runs)
+export function findJUnitReports(patterns: string[], since = 0): string[] {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  // Some file systems only store modification times in whole seconds
+  const threshold = Math.floor(since / 1000) * 1000;
+  const reports = new Set<string>();
+
+  for (const pattern of patterns) {
+    const fullPattern = path.resolve(workspace, pattern);
+    const matches = /[*?[{]/.test(pattern)
+      ? fs.globSync(fullPattern).sort()
+      : [fullPattern];
+
+    for (const match of matches) {
+      if (!fs.existsSync(match)) continue;
+
+      const stats = fs.statSync(match);
+      if (stats.isFile() && stats.mtimeMs >= threshold) {
+        reports.add(match);
+      }
+    }
+  }
+
+  return [...reports];
+}
@@ -1,5 +1,12 @@
 import * as core from '@actions/core';
-import type { ActionInputs } from '../types.js';
+import type {
+  ActionInputs,
+  DependencyGraphFormat,
+  HookFailureMode,
+  ResultFormat,
+  RetryBackoff,
+  RetryIsolation,
+} from '../types.js';
 
 function getInputNumber(
   id: string,
@@ -23,6 +30,24 @@ function getInputNumber(
   return num;
 }
 
+function getInputFloat(id: string, defaultValue: number): number {
+  const input = core.getInput(id).trim();
+
+  if (!input) {
+    return defaultValue;
+  }
+
+  const num = Number(input);
+
+  if (!Number.isFinite(num)) {
+    throw new Error(
+      `Input '${id}' must be a valid number. Received: "${input}"`,
+    );
+  }
+
+  return num;
+}
+
 function validateRange(
   name: string,
   value: number,
@@ -37,29 +62,177 @@ function validateRange(
   }
 }
 
+function getInputChoice<T extends string>(
+  id: string,
+  choices: readonly T[],
+  defaultValue: T,
+): T {
+  const input = core.getInput(id).trim().toLowerCase();
+
+  if (!input) {
+    return defaultValue;
+  }
+
+  if (!choices.includes(input as T)) {
+    throw new Error(
+      `Input '${id}' must be one of: ${choices.join(', ')}. Received: "${input}"`,
+    );
+  }
+
+  return input as T;
+}
+
+function getInputBoolean(id: string, defaultValue: boolean): boolean {
+  const input = core.getInput(id).trim().toLowerCase();
+
+  if (!input) {
+    return defaultValue;
+  }
+
+  if (input !== 'true' && input !== 'false') {
+    throw new Error(
+      `Input '${id}' must be 'true' or 'false'. Received: "${input}"`,
+    );
+  }
+
+  return input === 'true';
+}
+
+// One regular expression per line
+function getInputRegExps(id: string): RegExp[] {
+  return core.getMultilineInput(id).map((source) => {
+    try {
+      return new RegExp(source);
+    } catch (error) {
+      throw new Error(
+        `Input '${id}' must contain valid regular expressions. ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
 export function getInputs(): ActionInputs {
   const command = core.getInput('command', { required: true });
   const testDir = core.getInput('test_dir', { required: true });
   const shell = core.getInput('shell') || 'bash';
   const githubToken = core.getInput('github_token') || undefined;
   const jobId = core.getInput('job_id') || undefined;
+  const phpunitConfig = core.getInput('phpunit_config') || undefined;
+  const junitPaths = core.getMultilineInput('junit_path');
+  const mergedJunitPath = core.getInput('merged_junit_path') || undefined;
+  const beforeRetryCommand = core.getInput('before_retry_command') || undefined;
+  const afterAttemptCommand =
+    core.getInput('after_attempt_command') || undefined;
+  const healthCheckCommand = core.getInput('health_check_command') || undefined;
+  const healthCheckUrl = core.getInput('health_check_url') || undefined;
 
   const maxAttempts = getInputNumber('max_attempts', false, 3)!;
   const retryWaitSeconds = getInputNumber('retry_wait_seconds', false, 10)!;
+  const retryMaxWaitSeconds = getInputNumber(
+    'retry_max_wait_seconds',
+    false,
+    0,
+  )!;
   const timeoutMinutes = getInputNumber('timeout_minutes', false, 30)!;
+  const maxTestRetries = getInputNumber('max_test_retries', false, 0)!;
+  const maxFailedTests = getInputNumber('max_failed_tests', false, 0)!;
+  const maxFailureRatio = getInputFloat('max_failure_ratio', 1);
+  const retryWorkers = getInputNumber('retry_workers', false, 1)!;
+  const healthCheckTimeoutSeconds = getInputNumber(
+    'health_check_timeout_seconds',
+    false,
+    300,
+  )!;
+  const healthCheckIntervalSeconds = getInputNumber(
+    'health_check_interval_seconds',
+    false,
+    5,
+  )!;
 
   validateRange('max_attempts', maxAttempts, 1, 10);
   validateRange('retry_wait_seconds', retryWaitSeconds, 0);
+  validateRange('retry_max_wait_seconds', retryMaxWaitSeconds, 0); // 0 = no limit
   validateRange('timeout_minutes', timeoutMinutes, 0); // 0 = no timeout
+  validateRange('max_test_retries', maxTestRetries, 0); // 0 = no limit
+  validateRange('max_failed_tests', maxFailedTests, 0); // 0 = no limit
+  validateRange('max_failure_ratio', maxFailureRatio, 0, 1);
+  validateRange('retry_workers', retryWorkers, 1, 16);
+  if (healthCheckUrl && !URL.canParse(healthCheckUrl)) {
+    throw new Error(
+      `Input 'health_check_url' must be a valid URL. Received: "${healthCheckUrl}"`,
+    );
+  }
+  validateRange('health_check_timeout_seconds', healthCheckTimeoutSeconds, 0);
+  validateRange('health_check_interval_seconds', healthCheckIntervalSeconds, 1);
+
+  const retryBackoff = getInputChoice<RetryBackoff>(
+    'retry_backoff',
+    ['fixed', 'linear', 'exponential', 'decorrelated'],
+    'fixed',
+  );
+  const retryIsolation = getInputChoice<RetryIsolation>(
+    'retry_isolation',
+    ['none', 'process', 'groups'],
+    'none',
+  );
+  const hookFailure = getInputChoice<HookFailureMode>(
+    'hook_failure',
+    ['warn', 'stop', 'fail'],
+    'warn',
+  );
+  const dependencyGraph = getInputChoice<DependencyGraphFormat>(
+    'dependency_graph',
+    ['none', 'dot', 'mermaid', 'json'],
+    'none',
+  );
+  const failOnInvalidDependencies = getInputBoolean(
+    'fail_on_invalid_dependencies',
+    false,
+  );
+  const dependencyIndex = getInputBoolean('dependency_index', false);
+  const resultFormat = getInputChoice<ResultFormat | 'auto'>(
+    'result_format',
+    ['auto', 'junit', 'teamcity', 'events'],
+    'auto',
+  );
+  const parseOutput = getInputBoolean('parse_output', false);
+  const dropHardFailures = getInputBoolean('drop_hard_failures', false);
+  const retryOn = getInputRegExps('retry_on');
+  const neverRetryOn = getInputRegExps('never_retry_on');
 
   return {
     command,
     maxAttempts,
     retryWaitSeconds,
+    retryBackoff,
+    retryMaxWaitSeconds,
     shell,
     timeoutMinutes,
     testDir,
     githubToken,
     jobId,
+    dependencyGraph,
+    failOnInvalidDependencies,
+    dependencyIndex,
+    phpunitConfig,
+    junitPaths,
+    mergedJunitPath,
+    resultFormat,
+    parseOutput,
+    maxTestRetries,
+    dropHardFailures,
+    retryOn,
+    neverRetryOn,
+    maxFailureRatio,
+    maxFailedTests,
+    beforeRetryCommand,
+    afterAttemptCommand,
+    hookFailure,
+    healthCheckCommand,
+    healthCheckUrl,
+    healthCheckTimeoutSeconds,
+    healthCheckIntervalSeconds,
+    retryIsolation,
+    retryWorkers,
   };
 }
@@ -0,0 +1,138 @@
+/**
+ * Compares the streaming JUnit parser with the previous implementation, which
+ * parsed the whole report with fast-xml-parser once for failures and once for
+ * stats. Every run happens in a child process to measure its peak memory.
+ *
+ * Usage: bun run bench [tests] [failure output KB]
+ */
+import { spawnSync } from 'child_process';
+import { XMLParser } from 'fast-xml-parser';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JUnitParser } from '../../src/parsers/junit';
+
+type Implementation = 'streaming' | 'fast-xml-parser';
+
+interface RunResult {
+  ms: number;
+  maxRssMb: number;
+  failures: number;
+}
+
+function generateReport(
+  filePath: string,
+  tests: number,
+  outputKb: number,
+): void {
+  const fd = fs.openSync(filePath, 'w');
+  const output = 'Response body: '.padEnd(outputKb * 1024, '{"a":1} ');
+
+  fs.writeSync(fd, `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites>\n`);
+  fs.writeSync(
+    fd,
+    `<testsuite name="Tests\\E2E\\BenchTest" tests="${tests}" assertions="${tests}" failures="${Math.ceil(tests / 50)}" errors="0">\n`,
+  );
+
+  for (let i = 0; i < tests; i++) {
+    const attributes = `name="test${i}" class="Tests\\E2E\\BenchTest" file="/usr/src/code/tests/e2e/BenchTest.php" line="${i}" assertions="1" time="0.01"`;
+
+    if (i % 50 === 0) {
+      fs.writeSync(
+        fd,
+        `<testcase ${attributes}><failure type="PHPUnit\\Framework\\ExpectationFailedException">Failed asserting that 500 matches expected 200.\n\n/usr/src/code/tests/e2e/BenchTest.php:${i}</failure><system-out><![CDATA[${output}]]></system-out></testcase>\n`,
+      );
+    } else {
+      fs.writeSync(fd, `<testcase ${attributes}/>\n`);
+    }
+  }
+
+  fs.writeSync(fd, '</testsuite>\n</testsuites>\n');
+  fs.closeSync(fd);
+}
+
+function countLegacyFailures(node: unknown): number {
+  if (!node || typeof node !== 'object') return 0;
+  if (Array.isArray(node)) {
+    return node.reduce((sum, item) => sum + countLegacyFailures(item), 0);
+  }
+
+  const record = node as Record<string, unknown>;
+  const own = record['failure'] || record['error'] ? 1 : 0;
+  return (
+    own +
+    countLegacyFailures(record['testsuites']) +
+    countLegacyFailures(record['testsuite']) +
+    countLegacyFailures(record['testcase'])
+  );
+}
+
+function runOnce(implementation: Implementation, filePath: string): void {
+  const start = performance.now();
+  let failures = 0;
+
+  if (implementation === 'streaming') {
+    const report = new JUnitParser().parseReport(filePath);
+    failures = report.testCases.filter((t) => t.outcome === 'failed').length;
+  } else {
+    // Failures and stats were each parsed from a fresh read of the file
+    for (let pass = 0; pass < 2; pass++) {
+      const parser = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: '@_',
+      });
+      const result = parser.parse(fs.readFileSync(filePath, 'utf-8'));
+      failures = countLegacyFailures(result);
+    }
+  }
+
+  const result: RunResult = {
+    ms: performance.now() - start,
+    maxRssMb: process.resourceUsage().maxRSS / 1024,
+    failures,
+  };
+  console.log(JSON.stringify(result));
+}
+
+function measure(implementation: Implementation, filePath: string): RunResult {
+  const child = spawnSync(
+    process.execPath,
+    [__filename, '--run', implementation, filePath],
+    { encoding: 'utf-8', timeout: 10 * 60 * 1000 },
+  );
+  if (child.status !== 0) {
+    throw new Error(`${implementation} failed: ${child.stderr}`);
+  }
+  return JSON.parse(child.stdout.trim().split('\n').pop()!) as RunResult;
+}
+
+function main(): void {
+  const [flag, implementation, filePath] = process.argv.slice(2);
+  if (flag === '--run') {
+    runOnce(implementation as Implementation, filePath!);
+    return;
+  }
+
+  const tests = parseInt(process.argv[2] || '20000', 10);
+  const outputKb = parseInt(process.argv[3] || '64', 10);
+  const reportPath = path.join(os.tmpdir(), 'phpunit-retry-bench.xml');
+
+  generateReport(reportPath, tests, outputKb);
+  const sizeMb = fs.statSync(reportPath).size / 1024 / 1024;
+  console.log(
+    `Report: ${tests} tests, ${Math.ceil(tests / 50)} failures with ${outputKb} KB output (${sizeMb.toFixed(1)} MB)`,
+  );
+
+  try {
+    for (const name of ['fast-xml-parser', 'streaming'] as const) {
+      const result = measure(name, reportPath);
+      console.log(
+        `${name.padEnd(16)} ${result.ms.toFixed(0).padStart(6)} ms ${result.maxRssMb.toFixed(0).padStart(6)} MB peak RSS (${result.failures} failures)`,
+      );
+    }
+  } finally {
+    fs.unlinkSync(reportPath);
+  }
+}
+
+main();
@@ -0,0 +1,180 @@
+import { describe, test, expect } from 'bun:test';
+import { RetryBudget, checkFailureThreshold } from '../../src/core/budget';
+import type { FailedTest } from '../../src/types';
+
+function failure(
+  method: string,
+  error = 'Failed asserting that false is true.',
+) {
+  return {
+    name: `Tests\\E2E\\ApiTest::${method}`,
+    class: 'ApiTest',
+    method,
+    file: '/usr/src/code/tests/E2E/ApiTest.php',
+    error,
+    errorType: 'PHPUnit\\Framework\\ExpectationFailedException',
+  } satisfies FailedTest;
+}
+
+function policy(
+  overrides: Partial<ConstructorParameters<typeof RetryBudget>[0]> = {},
+) {
+  return {
+    maxTestRetries: 0,
+    dropHardFailures: false,
+    retryOn: [],
+    neverRetryOn: [],
+    ...overrides,
+  };
+}
+
+const names = (tests: FailedTest[]) => tests.map((t) => t.method);
+
+describe('RetryBudget', () => {
+  test('should retry every failure without limits', () => {
+    const budget = new RetryBudget(policy());
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const { retry, dropped } = budget.select([failure('testA')], attempt);
+      expect(names(retry)).toEqual(['testA']);
+      expect(dropped).toEqual([]);
+    }
+    expect(budget.getRetries(failure('testA').name)).toBe(5);
+  });
+
+  test('should stop retrying a test after its retries', () => {
+    const budget = new RetryBudget(policy({ maxTestRetries: 2 }));
+
+    budget.select([failure('testA')], 1);
+    budget.select([failure('testA'), failure('testB')], 2);
+    const { retry, dropped } = budget.select(
+      [failure('testA'), failure('testB')],
+      3,
+    );
+
+    expect(names(retry)).toEqual(['testB']);
+    expect(dropped).toEqual([
+      { test: failure('testA'), reason: 'retry-limit', attempt: 3 },
+    ]);
+    expect(budget.getRetries(failure('testA').name)).toBe(2);
+  });
+
+  test('should drop tests failing twice in a row with the same error', () => {
+    const budget = new RetryBudget(policy({ dropHardFailures: true }));
+
+    budget.select([failure('testA'), failure('testB', 'Timeout after 5s')], 1);
+    const { retry, dropped } = budget.select(
+      [failure('testA'), failure('testB', 'Connection refused')],
+      2,
+    );
+
+    expect(names(retry)).toEqual(['testB']);
+    expect(dropped).toEqual([
+      { test: failure('testA'), reason: 'hard-failure', attempt: 2 },
+    ]);
+    expect(names(budget.getDropped().map(({ test }) => test))).toEqual([
+      'testA',
+    ]);
+  });
+
+  test('should only compare with the previous attempt', () => {
+    const budget = new RetryBudget(policy({ dropHardFailures: true }));
+
+    budget.select([failure('testA'), failure('testB')], 1);
+    budget.select([failure('testB', 'Another error')], 2);
+    const { retry } = budget.select([failure('testA'), failure('testB')], 3);
+
+    // testA passed on attempt 2 and failed again as a dependency
+    expect(names(retry)).toEqual(['testA', 'testB']);
+  });
+
+  test('should keep retrying repeated errors when disabled', () => {
+    const budget = new RetryBudget(policy());
+
+    budget.select([failure('testA')], 1);
+    expect(names(budget.select([failure('testA')], 2).retry)).toEqual([
+      'testA',
+    ]);
+  });
+
+  test('should only retry failures matching retry_on', () => {
+    const budget = new RetryBudget(
+      policy({ retryOn: [/ConnectException|Timeout|503/] }),
+    );
+
+    const { retry, dropped } = budget.select(
+      [
+        failure('testA'),
+        failure('testB', 'Timeout after 5s'),
+        {
+          ...failure('testC'),
+          errorType: 'GuzzleHttp\\Exception\\ConnectException',
+        },
+      ],
+      1,
+    );
+
+    expect(names(retry)).toEqual(['testB', 'testC']);
+    expect(dropped).toEqual([
+      { test: failure('testA'), reason: 'not-retryable', attempt: 1 },
+    ]);
+  });
+
+  test('should never retry failures matching never_retry_on', () => {
+    const budget = new RetryBudget(
+      policy({
+        retryOn: [/Timeout/],
+        neverRetryOn: [/ExpectationFailedException/],
+      }),
+    );
+
+    const { retry, dropped } = budget.select(
+      [
+        failure('testA', 'Timeout after 5s'),
+        { ...failure('testB'), errorType: undefined },
+      ],
+      1,
+    );
+
+    expect(names(retry)).toEqual([]);
+    expect(dropped.map(({ test, reason }) => [test.method, reason])).toEqual([
+      ['testA', 'not-retryable'],
+      ['testB', 'not-retryable'],
+    ]);
+  });
+});
+
+describe('checkFailureThreshold', () => {
+  const stats = (failures: number, total: number) => ({
+    total,
+    failures,
+    assertions: 0,
+    skipped: 0,
+    incomplete: 0,
+    risky: 0,
+    warnings: 0,
+  });
+
+  test('should allow retries without limits', () => {
+    const limits = { maxFailureRatio: 1, maxFailedTests: 0 };
+    expect(checkFailureThreshold(stats(500, 500), limits)).toBeNull();
+  });
+
+  test('should stop above the failure ratio', () => {
+    const limits = { maxFailureRatio: 0.5, maxFailedTests: 0 };
+
+    expect(checkFailureThreshold(stats(250, 500), limits)).toBeNull();
+    expect(checkFailureThreshold(stats(400, 500), limits)).toBe(
+      '400 of 500 tests failed (80%), more than max_failure_ratio (50%)',
+    );
+  });
+
+  test('should stop above the failed test count', () => {
+    const limits = { maxFailureRatio: 1, maxFailedTests: 20 };
+
+    expect(checkFailureThreshold(stats(20, 5000), limits)).toBeNull();
+    expect(checkFailureThreshold(stats(21, 5000), limits)).toBe(
+      '21 tests failed, more than max_failed_tests (20)',
+    );
+  });
+});
@@ -25,6 +25,29 @@ describe('CommandBuilder', () => {
       expect(result).not.toContain(localPath);
     });
 
+    test('should use a custom container path', () => {
+      const command =
+        'docker compose exec -T appwrite test /usr/src/code/tests/e2e';
+      const result = builder.addJUnitLogging(
+        command,
+        '/workspace/phpunit-junit-2.xml',
+        '/tmp/phpunit-junit-2.xml',
+      );
+
+      expect(result).toEndWith('--log-junit /tmp/phpunit-junit-2.xml');
+    });
+
+    test('should log the phpunit run of a pipe', () => {
+      const result = builder.addJUnitLogging(
+        'vendor/bin/phpunit tests/ | tee phpunit.log',
+        '/workspace/phpunit-junit.xml',
+      );
+
+      expect(result).toBe(
+        'vendor/bin/phpunit tests/ --log-junit /workspace/phpunit-junit.xml | tee phpunit.log',
+      );
+    });
+
     test('should preserve original command', () => {
       const command = 'vendor/bin/phpunit tests/ --debug';
       const localPath = '/workspace/phpunit-junit.xml';
@@ -34,6 +57,35 @@ describe('CommandBuilder', () => {
     });
   });
 
+  describe('addProcessIsolation', () => {
+    test('should add --process-isolation flag', () => {
+      expect(builder.addProcessIsolation('vendor/bin/phpunit tests/')).toBe(
+        'vendor/bin/phpunit tests/ --process-isolation',
+      );
+    });
+
+    test('should not add it twice', () => {
+      const command = 'vendor/bin/phpunit --process-isolation tests/';
+      expect(builder.addProcessIsolation(command)).toBe(command);
+    });
+
+    test('should isolate the phpunit run of a pipe', () => {
+      expect(
+        builder.addProcessIsolation('vendor/bin/phpunit tests/ | tee out.log'),
+      ).toBe('vendor/bin/phpunit tests/ --process-isolation | tee out.log');
+    });
+
+    test('should isolate every run of chained commands', () => {
+      expect(
+        builder.addProcessIsolation(
+          'phpunit --testsuite unit && phpunit --testsuite e2e',
+        ),
+      ).toBe(
+        'phpunit --testsuite unit --process-isolation && phpunit --testsuite e2e --process-isolation',
+      );
+    });
+  });
+
   describe('addFilter', () => {
     test('should add --filter flag with pattern', () => {
       const command = 'vendor/bin/phpunit tests/';
@@ -62,6 +114,33 @@ describe('CommandBuilder', () => {
       expect(result).toContain('--filter');
       expect(result).toContain('testCreate|testUpdate');
     });
+
+    test('should filter every run of chained commands', () => {
+      const command =
+        'vendor/bin/phpunit --testsuite unit --log-junit u.xml && vendor/bin/phpunit --testsuite e2e --log-junit e.xml';
+      const result = builder.addFilter(command, 'testA|testB');
+
+      expect(result).toBe(
+        'vendor/bin/phpunit --testsuite unit --log-junit u.xml --filter "testA|testB" && vendor/bin/phpunit --testsuite e2e --log-junit e.xml --filter "testA|testB"',
+      );
+    });
+
+    test('should not split chains inside quotes', () => {
+      const command =
+        'docker compose exec app sh -c "vendor/bin/phpunit --testsuite a && vendor/bin/phpunit --testsuite b"';
+      const result = builder.addFilter(command, 'A$|B$');
+
+      expect(result).toBe(`${command} --filter "A$|B$"`);
+    });
+
+    test('should filter the phpunit run of a pipe', () => {
+      const command = 'php vendor/bin/phpunit tests/ 2>&1 | tee phpunit.log';
+      const result = builder.addFilter(command, 'testA');
+
+      expect(result).toBe(
+        'php vendor/bin/phpunit tests/ 2>&1 --filter "testA" | tee phpunit.log',
+      );
+    });
   });
 
   describe('extractContainerName', () => {
@@ -162,6 +241,62 @@ describe('CommandBuilder', () => {
     });
   });
 
+  describe('extractJUnitPaths', () => {
+    test('should find every --log-junit path', () => {
+      const command =
+        'phpunit --testsuite unit --log-junit unit.xml && phpunit --testsuite e2e --log-junit=e2e.xml';
+
+      expect(builder.extractJUnitPaths(command)).toEqual([
+        'unit.xml',
+        'e2e.xml',
+      ]);
+      expect(builder.extractJUnitPath(command)).toBe('unit.xml');
+    });
+
+    test('should return an empty list without --log-junit', () => {
+      expect(builder.extractJUnitPaths('vendor/bin/phpunit')).toEqual([]);
+      expect(builder.extractJUnitPath('vendor/bin/phpunit')).toBeNull();
+    });
+  });
+
+  describe('extractEventLogPaths', () => {
+    test('should find TeamCity and event log paths', () => {
+      const command =
+        'phpunit --log-junit junit.xml --log-teamcity teamcity.txt --log-events-text=events.txt';
+
+      expect(builder.extractEventLogPaths(command)).toEqual([
+        'teamcity.txt',
+        'events.txt',
+      ]);
+    });
+  });
+
+  describe('countPhpUnitRuns', () => {
+    test('should count runs of chains outside of quotes', () => {
+      expect(
+        builder.countPhpUnitRuns(
+          'phpunit --testsuite unit && php vendor/bin/phpunit --testsuite e2e; echo done',
+        ),
+      ).toBe(2);
+      expect(
+        builder.countPhpUnitRuns(
+          `docker compose exec app sh -c 'phpunit a || phpunit b' | tee out.log`,
+        ),
+      ).toBe(0);
+      expect(builder.countPhpUnitRuns('phpunit --filter "a|b" 2>&1')).toBe(1);
+    });
+  });
+
+  describe('hasTeamCityOutput', () => {
+    test('should detect --teamcity but not --log-teamcity', () => {
+      expect(builder.hasTeamCityOutput('phpunit --teamcity tests/')).toBe(true);
+      expect(builder.hasTeamCityOutput('phpunit --teamcity')).toBe(true);
+      expect(
+        builder.hasTeamCityOutput('phpunit --log-teamcity teamcity.txt'),
+      ).toBe(false);
+    });
+  });
+
   describe('buildExtractCommand', () => {
     test('should create docker compose cp command for compose exec', () => {
       const command =
@@ -194,4 +329,57 @@ describe('CommandBuilder', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('buildExtractCommands', () => {
+    const command =
+      'docker compose exec -T appwrite vendor/bin/phpunit --log-junit /tmp/phpunit-junit-2.xml';
+
+    test('should copy the JUnit report of a worker to the workspace', () => {
+      const result = builder.buildExtractCommands(
+        command,
+        {
+          localJunitPath: '/workspace/phpunit-junit-2.xml',
+          containerJunitPath: '/tmp/phpunit-junit-2.xml',
+        },
+        ['events.txt'],
+      );
+
+      expect(result).toEqual([
+        'docker compose cp appwrite:/tmp/phpunit-junit-2.xml /workspace/phpunit-junit-2.xml',
+        'docker compose cp appwrite:events.txt events.txt',
+      ]);
+    });
+
+    test('should use the default container path', () => {
+      const result = builder.buildExtractCommands(
+        command,
+        { localJunitPath: '/workspace/phpunit-junit.xml' },
+        [],
+      );
+
+      expect(result).toEqual([
+        'docker compose cp appwrite:/tmp/phpunit-junit.xml /workspace/phpunit-junit.xml',
+      ]);
+    });
+
+    test('should copy reports of the command to the same path', () => {
+      const result = builder.buildExtractCommands(command, null, [
+        'reports/junit.xml',
+      ]);
+
+      expect(result).toEqual([
+        'docker compose cp appwrite:reports/junit.xml reports/junit.xml',
+      ]);
+    });
+
+    test('should return null for non-docker commands', () => {
+      const result = builder.buildExtractCommands(
+        'vendor/bin/phpunit',
+        { localJunitPath: '/workspace/phpunit-junit.xml' },
+        [],
+      );
+
+      expect(result).toBeNull();
+    });
+  });
 });
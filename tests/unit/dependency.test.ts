@@ -1,5 +1,7 @@
+import '../mocks';
 import { describe, test, expect } from 'bun:test';
 import { DependencyResolver } from '../../src/parsers/dependency';
+import * as fs from 'fs';
 import * as path from 'path';
 
 describe('DependencyResolver', () => {
@@ -183,4 +185,735 @@ describe('DependencyResolver', () => {
     const testsToRun = filter ? filter.split('|').length : 0;
     expect(testsToRun).toBe(0);
   });
+  describe('attributes', () => {
+    const testFile = path.join(fixturesDir, 'attributes-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\AttributesTest';
+
+    const buildFilter = (method: string): string => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      return resolver.buildFilterPattern([
+        {
+          name: `${className}::${method}`,
+          class: 'AttributesTest',
+          method,
+          file: testFile,
+        },
+      ]);
+    };
+
+    test('should parse #[Depends] attributes', () => {
+      const filter = buildFilter('testUpdate');
+
+      expect(filter).toContain('AttributesTest::testUpdate$');
+      expect(filter).toContain('AttributesTest::testCreate$');
+    });
+
+    test('should parse clone variants', () => {
+      const filter = buildFilter('testDelete');
+
+      expect(filter).toContain('AttributesTest::testDelete$');
+      expect(filter).toContain('AttributesTest::testUpdate$');
+      expect(filter).toContain('AttributesTest::testCreate$');
+    });
+
+    test('should parse named arguments', () => {
+      const filter = buildFilter('testRead');
+
+      expect(filter).toContain('AttributesTest::testCreate$');
+    });
+
+    test('should parse multiple attributes in one group', () => {
+      const filter = buildFilter('testMultipleDeps');
+
+      expect(filter).toContain('AttributesTest::testCreate$');
+      expect(filter).toContain('AttributesTest::testRead$');
+    });
+
+    test('should resolve DependsExternal class through imports', () => {
+      const filter = buildFilter('testExternal');
+
+      expect(filter).toContain(
+        'Tests\\E2E\\Services\\Users\\UsersTest::testCreateUser$',
+      );
+    });
+
+    test('should parse fully qualified attributes with string class names', () => {
+      const filter = buildFilter('testExternalString');
+
+      expect(filter).toContain(
+        'Tests\\E2E\\Services\\Teams\\TeamsTest::testCreateTeam$',
+      );
+    });
+
+    test('should include whole class for DependsOnClass', () => {
+      const filter = buildFilter('testOnClass');
+
+      // Resolved relative to the current namespace, without end anchor
+      expect(filter.split('|')).toContain(
+        'Tests\\E2E\\Services\\Sample\\SampleTest::',
+      );
+    });
+
+    test('should parse attributes after a docblock', () => {
+      const filter = buildFilter('testWithDocblock');
+
+      expect(filter).toContain('AttributesTest::testCreate$');
+    });
+  });
+  describe('@depends variants', () => {
+    const testFile = path.join(fixturesDir, 'depends-variants-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\DependsVariantsTest';
+
+    const buildFilter = (method: string): string[] => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      return resolver
+        .buildFilterPattern([
+          {
+            name: `${className}::${method}`,
+            class: 'DependsVariantsTest',
+            method,
+            file: testFile,
+          },
+        ])
+        .split('|');
+    };
+
+    test('should skip clone modifier', () => {
+      const filter = buildFilter('testClone');
+
+      expect(filter).toContain(`${className}::testCreate$`);
+      expect(filter).not.toContain(`${className}::clone$`);
+    });
+
+    test('should skip shallowClone modifier', () => {
+      const filter = buildFilter('testShallowClone');
+
+      expect(filter).toContain(`${className}::testCreate$`);
+      expect(filter).not.toContain(`${className}::shallowClone$`);
+    });
+
+    test('should skip negated clone modifiers', () => {
+      const filter = buildFilter('testNoClone');
+
+      expect(filter).toContain(`${className}::testCreate$`);
+      expect(filter).toContain(`${className}::testClone$`);
+      expect(filter).toHaveLength(3);
+    });
+
+    test('should keep namespaced external dependency', () => {
+      const filter = buildFilter('testExternal');
+
+      expect(filter).toContain(
+        'Tests\\E2E\\Services\\Users\\UsersTest::testCreateUser$',
+      );
+    });
+
+    test('should strip leading backslash from external dependency', () => {
+      const filter = buildFilter('testExternalLeadingSlash');
+
+      expect(filter).toContain(
+        'Tests\\E2E\\Services\\Teams\\TeamsTest::testCreateTeam$',
+      );
+    });
+
+    test('should include whole class for @depends Class::class', () => {
+      const filter = buildFilter('testOnClass');
+
+      expect(filter).toContain('Tests\\E2E\\Services\\Sample\\SampleTest::');
+    });
+  });
+  describe('inheritance', () => {
+    const inheritanceDir = path.join(fixturesDir, 'inheritance');
+    const testFile = path.join(inheritanceDir, 'ProjectsConsoleClientTest.php');
+    const className =
+      'Tests\\E2E\\Services\\Projects\\ProjectsConsoleClientTest';
+
+    // Resolves classes of other namespaces, like the workspace search does
+    const locator = (name: string): string | null => {
+      const file = path.join(
+        inheritanceDir,
+        'Scopes',
+        `${name.split('\\').pop()}.php`,
+      );
+      return fs.existsSync(file) ? file : null;
+    };
+
+    const buildFilter = (
+      method: string,
+      resolver = new DependencyResolver(locator),
+    ): string[] => {
+      resolver.parseTestFile(testFile);
+
+      return resolver
+        .buildFilterPattern([
+          {
+            name: `${className}::${method}`,
+            class: 'ProjectsConsoleClientTest',
+            method,
+            file: testFile,
+          },
+        ])
+        .split('|');
+    };
+
+    test('should resolve dependencies declared on the parent class', () => {
+      const filter = buildFilter('testUpdate');
+
+      // Keyed by the concrete class, as reported in JUnit XML
+      expect(filter).toContain(`${className}::testUpdate$`);
+      expect(filter).toContain(`${className}::testCreate$`);
+    });
+
+    test('should resolve own dependencies on inherited tests', () => {
+      const filter = buildFilter('testDelete');
+
+      expect(filter).toContain(`${className}::testDelete$`);
+      expect(filter).toContain(`${className}::testUpdate$`);
+      expect(filter).toContain(`${className}::testCreate$`);
+    });
+
+    test('should resolve dependencies of trait methods', () => {
+      const filter = buildFilter('testCustom');
+
+      expect(filter).toContain(`${className}::testCustom$`);
+      expect(filter).toContain(`${className}::testCreate$`);
+    });
+
+    test('should resolve traits and grandparents through the locator', () => {
+      expect(buildFilter('testSideUsage')).toContain(
+        `${className}::testSideSetup$`,
+      );
+      expect(buildFilter('testScopeUsage')).toContain(
+        `${className}::testScopeSetup$`,
+      );
+    });
+
+    test('should use the locator when a sibling declares another class', () => {
+      const filter = buildFilter('testSideUsage');
+
+      expect(filter).toContain(`${className}::testSideSetup$`);
+      expect(filter).not.toContain(`${className}::testOtherSide$`);
+    });
+
+    test('should skip classes the locator cannot find', () => {
+      const filter = buildFilter('testScopeUsage', new DependencyResolver());
+
+      expect(filter).toEqual([`${className}::testScopeUsage$`]);
+    });
+
+    test('should let the concrete class override inherited methods', () => {
+      const filter = buildFilter('testOverridden');
+
+      expect(filter).toEqual([`${className}::testOverridden$`]);
+    });
+  });
+  describe('source scanning', () => {
+    const phpFixturesDir = path.join(fixturesDir, 'php');
+
+    const buildFilter = (file: string, name: string): string[] => {
+      const resolver = new DependencyResolver();
+      const testFile = path.join(phpFixturesDir, file);
+      resolver.parseTestFile(testFile);
+
+      const [className, method] = name.split('::') as [string, string];
+      return resolver
+        .buildFilterPattern([
+          {
+            name,
+            class: className.split('\\').pop()!,
+            method,
+            file: testFile,
+          },
+        ])
+        .split('|');
+    };
+
+    test('should resolve dependencies of every class in a file', () => {
+      const filter = buildFilter(
+        'multiple-classes.php',
+        'Tests\\Unit\\Multiple\\SecondTest::testUpdate',
+      );
+
+      expect(filter).toEqual([
+        'Tests\\Unit\\Multiple\\SecondTest::testUpdate$',
+        'Tests\\Unit\\Multiple\\SecondTest::testCreate$',
+      ]);
+    });
+
+    test('should resolve dependencies after nested attribute arguments', () => {
+      const filter = buildFilter(
+        'attributes-between.php',
+        'Tests\\Unit\\Attributes\\AttributesBetweenTest::testValues',
+      );
+
+      expect(filter).toContain(
+        'Tests\\Unit\\Attributes\\AttributesBetweenTest::testCreate$',
+      );
+    });
+
+    test('should resolve dependencies of non-public-first signatures', () => {
+      const filter = buildFilter(
+        'static-methods.php',
+        'Tests\\Unit\\Modifiers\\ModifiersTest::testFinal',
+      );
+
+      expect(filter).toContain(
+        'Tests\\Unit\\Modifiers\\ModifiersTest::testCreate$',
+      );
+    });
+
+    test('should ignore dependencies declared on helper methods', () => {
+      const filter = buildFilter(
+        'no-docblocks.php',
+        'Tests\\Unit\\Docblocks\\DocblocksTest::testWithoutDocblock',
+      );
+
+      expect(filter).toHaveLength(1);
+    });
+  });
+  describe('@test and #[Test] methods', () => {
+    const testFile = path.join(fixturesDir, 'bdd-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\BddTest';
+
+    const buildFilter = (method: string): string[] => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      return resolver
+        .buildFilterPattern([
+          {
+            name: `${className}::${method}`,
+            class: 'BddTest',
+            method,
+            file: testFile,
+          },
+        ])
+        .split('|');
+    };
+
+    test('should resolve dependencies of @test annotated methods', () => {
+      expect(buildFilter('it_updates_a_project')).toEqual([
+        `${className}::it_updates_a_project$`,
+        `${className}::it_creates_a_project$`,
+      ]);
+    });
+
+    test('should resolve dependencies of #[Test] attributed methods', () => {
+      expect(buildFilter('it_deletes_a_project')).toEqual([
+        `${className}::it_deletes_a_project$`,
+        `${className}::it_updates_a_project$`,
+        `${className}::it_creates_a_project$`,
+      ]);
+    });
+
+    test('should not treat @testdox as a test marker', () => {
+      expect(buildFilter('describes_a_project')).toEqual([
+        `${className}::describes_a_project$`,
+      ]);
+    });
+  });
+
+  describe('findDependencySkips', () => {
+    const testFile = path.join(fixturesDir, 'sample-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\SampleTest';
+    const sampleTest = (method: string, error?: string) => ({
+      name: `${className}::${method}`,
+      class: 'SampleTest',
+      method,
+      file: testFile,
+      error,
+    });
+
+    test('should find tests skipped because a dependency failed', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const skipped = resolver.findDependencySkips(
+        [
+          sampleTest('testDelete'),
+          sampleTest('testMultipleDeps'),
+          sampleTest('testIndependent'),
+        ],
+        [sampleTest('testUpdate')],
+      );
+
+      expect(skipped.map((t) => t.method)).toEqual(['testDelete']);
+    });
+
+    test('should follow dependencies through other tests', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const skipped = resolver.findDependencySkips(
+        [
+          sampleTest('testDelete'),
+          sampleTest('testMultipleDeps'),
+          sampleTest('testIndependent'),
+        ],
+        [sampleTest('testCreate')],
+      );
+
+      expect(skipped.map((t) => t.method)).toEqual([
+        'testDelete',
+        'testMultipleDeps',
+      ]);
+    });
+
+    test('should trust PHPUnit skip messages of unparsed tests', () => {
+      const resolver = new DependencyResolver();
+
+      const skipped = resolver.findDependencySkips(
+        [
+          sampleTest(
+            'testDelete',
+            'This test depends on "SampleTest::testUpdate" to pass',
+          ),
+          sampleTest('testIndependent', 'Requires the redis extension'),
+        ],
+        [sampleTest('testUpdate')],
+      );
+
+      expect(skipped.map((t) => t.method)).toEqual(['testDelete']);
+    });
+  });
+
+  describe('whole class retries', () => {
+    const testFile = path.join(fixturesDir, 'sample-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\SampleTest';
+    const failedTest = (name: string, method: string) => ({
+      name: `${name}::${method}`,
+      class: name.split('\\').pop()!,
+      method,
+      file: '/usr/src/code/tests/Missing.php',
+    });
+
+    test('should retry unavailable classes with a class filter', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+      resolver.retryWholeClass('Tests\\E2E\\MissingTest');
+
+      const filter = resolver.buildFilterPattern([
+        failedTest('Tests\\E2E\\MissingTest', 'testFoo'),
+        failedTest('Tests\\E2E\\MissingTest', 'testBar'),
+        failedTest(className, 'testUpdate'),
+      ]);
+
+      expect(filter.split('|')).toEqual([
+        'Tests\\E2E\\MissingTest::',
+        `${className}::testUpdate$`,
+        `${className}::testCreate$`,
+      ]);
+    });
+
+    test('should ignore data sets of unavailable classes', () => {
+      const resolver = new DependencyResolver();
+      resolver.retryWholeClass('Tests\\E2E\\MissingTest');
+
+      const filter = resolver.buildFilterPattern([
+        {
+          ...failedTest('Tests\\E2E\\MissingTest', 'testFoo'),
+          dataSet: '#1',
+        },
+      ]);
+
+      expect(filter).toBe('Tests\\E2E\\MissingTest::');
+    });
+  });
+
+  describe('data sets', () => {
+    const testFile = path.join(fixturesDir, 'data-provider-test.php');
+    const className = 'Tests\\Unit\\UsersTest';
+
+    const failedTest = (method: string, dataSet?: string, label = '') => ({
+      name: `${className}::${method}${label}`,
+      class: 'UsersTest',
+      method,
+      dataSet,
+      file: testFile,
+    });
+
+    const buildFilter = (tests: ReturnType<typeof failedTest>[]): string => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+      return resolver.buildFilterPattern(tests);
+    };
+
+    test('should use PHPUnit shorthand for a single data set', () => {
+      const resolver = new DependencyResolver();
+
+      expect(
+        resolver.buildFilterPattern([
+          failedTest('testEmail', '#3', ' with data set #3'),
+        ]),
+      ).toBe(`${className}::testEmail#3`);
+      expect(
+        resolver.buildFilterPattern([
+          failedTest(
+            'testEmail',
+            '@invalid email',
+            ' with data set "invalid email"',
+          ),
+        ]),
+      ).toBe(`${className}::testEmail@invalid email`);
+    });
+
+    test('should retry only failed data sets with dependencies', () => {
+      const filter = buildFilter([
+        failedTest(
+          'testEmail',
+          '@invalid email',
+          ' with data set "invalid email"',
+        ),
+        failedTest('testEmail', '#3', ' with data set #3'),
+      ]);
+
+      expect(filter.split('|')).toEqual([
+        `${className}::testEmail with data set "invalid email"$`,
+        `${className}::testEmail with data set #3$`,
+        `${className}::testCreate$`,
+      ]);
+    });
+
+    test('should run every data set of a dependency', () => {
+      const filter = buildFilter([
+        failedTest('testEmail', '#3', ' with data set #3'),
+        failedTest('testAfterEmail'),
+      ]);
+
+      expect(filter.split('|')).toEqual([
+        `${className}::testEmail$`,
+        `${className}::testCreate$`,
+        `${className}::testAfterEmail$`,
+      ]);
+    });
+
+    test('should escape regex characters in data set names', () => {
+      const filter = buildFilter([
+        failedTest('testEmail', '@a.b (1)', ' with data set "a.b (1)"'),
+        failedTest(
+          'testEmail',
+          '@user@example.com',
+          ' with data set "user@example.com"',
+        ),
+      ]);
+      const patterns = filter.split('|');
+
+      expect(patterns[0]).toBe(
+        `${className}::testEmail with data set "a[.]b [(]1[)]"$`,
+      );
+      // `@` would trigger PHPUnit's shorthand expansion
+      expect(patterns[1]).toBe(
+        `${className}::testEmail with data set "user.example[.]com"$`,
+      );
+      expect(
+        new RegExp(patterns[0]!.replace(/\\/g, '\\\\')).test(
+          `${className}::testEmail with data set "a.b (1)"`,
+        ),
+      ).toBe(true);
+    });
+
+    test('should show data set in dependency tree', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const tree = resolver.buildDependencyTree([
+        failedTest('testEmail', '#3', ' with data set #3'),
+      ]);
+
+      expect(tree).toBe(
+        `${className}::testCreate\n  └─> ${className}::testEmail with data set #3 (FAILED)`,
+      );
+    });
+  });
+  describe('groupByDependencies', () => {
+    const testFile = path.join(fixturesDir, 'sample-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\SampleTest';
+
+    const failedTest = (method: string, name = className) => ({
+      name: `${name}::${method}`,
+      class: name.split('\\').pop()!,
+      method,
+      file: testFile,
+    });
+    const methods = (groups: { method: string }[][]) =>
+      groups.map((group) => group.map((test) => test.method));
+
+    test('should group tests sharing a dependency', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const groups = resolver.groupByDependencies([
+        failedTest('testDelete'),
+        failedTest('testIndependent'),
+        failedTest('testRead'),
+      ]);
+
+      // testDelete and testRead both depend on testCreate
+      expect(methods(groups)).toEqual([
+        ['testDelete', 'testRead'],
+        ['testIndependent'],
+      ]);
+    });
+
+    test('should keep tests of classes retried whole together', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+      resolver.retryWholeClass('Tests\\Unit\\OtherTest');
+
+      const groups = resolver.groupByDependencies([
+        failedTest('testA', 'Tests\\Unit\\OtherTest'),
+        failedTest('testIndependent'),
+        failedTest('testB', 'Tests\\Unit\\OtherTest'),
+      ]);
+
+      expect(methods(groups)).toEqual([
+        ['testA', 'testB'],
+        ['testIndependent'],
+      ]);
+    });
+  });
+
+  describe('buildDependencyGraph', () => {
+    const testFile = path.join(fixturesDir, 'sample-test.php');
+    const className = 'Tests\\E2E\\Services\\Sample\\SampleTest';
+
+    const failedTest = (method: string) => ({
+      name: `${className}::${method}`,
+      class: 'SampleTest',
+      method,
+      file: testFile,
+    });
+
+    test('should include every path of diamond dependencies', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const graph = resolver.buildDependencyGraph([
+        failedTest('testMultipleDeps'),
+      ]);
+
+      expect(graph.nodes).toEqual([
+        { id: `${className}::testMultipleDeps`, status: 'failed' },
+        { id: `${className}::testCreate`, status: 'passed' },
+        { id: `${className}::testRead`, status: 'passed' },
+      ]);
+      expect(graph.edges).toEqual([
+        {
+          from: `${className}::testMultipleDeps`,
+          to: `${className}::testCreate`,
+        },
+        {
+          from: `${className}::testMultipleDeps`,
+          to: `${className}::testRead`,
+        },
+        { from: `${className}::testRead`, to: `${className}::testCreate` },
+      ]);
+    });
+
+    test('should mark flaky tests and keep failed status precedence', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+
+      const graph = resolver.buildDependencyGraph(
+        [failedTest('testDelete')],
+        [
+          { ...failedTest('testUpdate'), attempts: 2, time: 1 },
+          { ...failedTest('testDelete'), attempts: 2, time: 1 },
+        ],
+      );
+
+      expect(graph.nodes).toEqual([
+        { id: `${className}::testUpdate`, status: 'flaky' },
+        { id: `${className}::testDelete`, status: 'failed' },
+        { id: `${className}::testCreate`, status: 'passed' },
+      ]);
+    });
+
+    test('should return an empty graph without tests', () => {
+      const resolver = new DependencyResolver();
+
+      expect(resolver.buildDependencyGraph([])).toEqual({
+        nodes: [],
+        edges: [],
+      });
+    });
+  });
+
+  describe('diagnose', () => {
+    const testFile = path.join(fixturesDir, 'invalid-depends-test.php');
+    const className = 'Tests\\E2E\\Services\\Invalid\\InvalidDependsTest';
+
+    const diagnose = () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(testFile);
+      return resolver.diagnose();
+    };
+
+    test('should report dependencies on tests that do not exist', () => {
+      const unknown = diagnose().filter((d) => d.type === 'unknown-target');
+
+      expect(unknown.map((d) => [d.test, d.target])).toEqual([
+        [`${className}::testTypo`, `${className}::testCreat`],
+        [`${className}::testHelper`, `${className}::helper`],
+      ]);
+      expect(unknown[0]!.file).toBe(testFile);
+      expect(unknown[0]!.line).toBe(18);
+    });
+
+    test('should report classes whose source cannot be found', () => {
+      const unresolved = diagnose().filter(
+        (d) => d.type === 'unresolved-class',
+      );
+
+      expect(unresolved).toHaveLength(1);
+      expect(unresolved[0]!.test).toBe(`${className}::testExternal`);
+      expect(unresolved[0]!.target).toBe(
+        'Tests\\E2E\\Services\\Missing\\MissingTest::testSomething',
+      );
+    });
+
+    test('should report each cycle once', () => {
+      const cycles = diagnose().filter((d) => d.type === 'cycle');
+
+      expect(cycles.map((d) => d.cycle)).toEqual([
+        [
+          `${className}::testFirst`,
+          `${className}::testSecond`,
+          `${className}::testFirst`,
+        ],
+        [`${className}::testSelf`, `${className}::testSelf`],
+      ]);
+      expect(cycles[0]!.line).toBe(23);
+      expect(cycles[0]!.message).toBe(
+        `Circular dependency: ${cycles[0]!.cycle!.join(' -> ')}`,
+      );
+    });
+
+    test('should look up classes that were not parsed', () => {
+      const externalDir = path.join(fixturesDir, 'external');
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(path.join(externalDir, 'ATest.php'));
+
+      expect(
+        resolver.diagnose().map((d) => [d.type, d.test, d.target]),
+      ).toEqual([
+        [
+          'unknown-target',
+          'Tests\\E2E\\Services\\External\\ATest::testTypo',
+          'Tests\\E2E\\Services\\External\\BTest::testMissing',
+        ],
+      ]);
+    });
+
+    test('should report nothing for valid dependencies', () => {
+      const resolver = new DependencyResolver();
+      resolver.parseTestFile(path.join(fixturesDir, 'sample-test.php'));
+
+      expect(resolver.diagnose()).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'bun:test';
+import { EventLogParser } from '../../src/parsers/events';
+import { UNFINISHED_TEST_ERROR } from '../../src/parsers/junit';
+import * as path from 'path';
+
+describe('EventLogParser', () => {
+  const parser = new EventLogParser();
+  const logPath = path.join(__dirname, 'fixtures', 'events.txt');
+
+  test('should parse test outcomes from events', () => {
+    const { testCases } = parser.parseReport(logPath);
+
+    expect(testCases.map((t) => [t.name, t.outcome])).toEqual([
+      ['Tests\\E2E\\ApiTest::testCreate', 'failed'],
+      ['Tests\\E2E\\ApiTest::testList', 'skipped'],
+      ['Tests\\E2E\\ApiTest::testEmail with data set #0', 'risky'],
+      ['Tests\\E2E\\ApiTest::testEmail with data set "invalid email"', 'error'],
+      ['Tests\\E2E\\ApiTest::testUpload', 'error'],
+    ]);
+  });
+
+  test('should collect messages following an event', () => {
+    const [failure, skipped] = parser.parseReport(logPath).testCases;
+
+    expect(failure?.error).toBe('Failed asserting that two arrays are equal.');
+    expect(failure?.trace).toBe(
+      'Failed asserting that two arrays are equal.\n--- Expected\n+++ Actual\n@@ @@',
+    );
+    expect(skipped?.error).toBe(
+      'This test depends on "Tests\\E2E\\ApiTest::testCreate" to pass',
+    );
+  });
+
+  test('should convert data sets and guess the file from the class', () => {
+    const testCases = parser.parseReport(logPath).testCases;
+
+    expect(testCases[2]).toMatchObject({ method: 'testEmail', dataSet: '#0' });
+    expect(testCases[3]).toMatchObject({
+      method: 'testEmail',
+      dataSet: '@invalid email',
+      file: 'ApiTest.php',
+    });
+  });
+
+  test('should report a test cut off by the end of the log as an error', () => {
+    const { testCases, stats } = parser.parseReport(logPath);
+
+    expect(testCases[4]?.error).toBe(UNFINISHED_TEST_ERROR);
+    expect(stats).toMatchObject({
+      total: 5,
+      failures: 3,
+      skipped: 1,
+      risky: 1,
+    });
+  });
+
+  test('should read verbose logs with telemetry', () => {
+    const prefix = '[00:00:00.012345 / 00:00:00.000123] [4194304 bytes] ';
+    const indent = ' '.repeat(prefix.length);
+    const { testCases } = parser.parseLog(
+      [
+        `${prefix}PHPUnit Started (PHPUnit 10.5.20 using PHP 8.3.6 (cli) on Linux)`,
+        `${prefix}Test Prepared (Tests\\ApiTest::testCreate)`,
+        `${prefix}Test Failed (Tests\\ApiTest::testCreate)`,
+        `${indent}Response Was Empty`,
+        `${prefix}Test Finished (Tests\\ApiTest::testCreate)`,
+      ].join('\n'),
+    );
+
+    expect(testCases).toHaveLength(1);
+    expect(testCases[0]).toMatchObject({
+      outcome: 'failed',
+      error: 'Response Was Empty',
+    });
+  });
+});
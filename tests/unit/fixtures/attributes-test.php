@@ -0,0 +1,70 @@
+<?php
+
+namespace Tests\E2E\Services\Sample;
+
+use PHPUnit\Framework\Attributes\Depends;
+use PHPUnit\Framework\Attributes\DependsExternal;
+use PHPUnit\Framework\Attributes\DependsOnClass;
+use PHPUnit\Framework\Attributes\DependsUsingDeepClone;
+use PHPUnit\Framework\Attributes\DependsUsingShallowClone;
+use PHPUnit\Framework\TestCase;
+use Tests\E2E\Services\Users\UsersTest as Users;
+
+class AttributesTest extends TestCase
+{
+    public function testCreate(): array
+    {
+        return ['id' => 123];
+    }
+
+    #[Depends('testCreate')]
+    public function testUpdate(array $data): array
+    {
+        return array_merge($data, ['updated' => true]);
+    }
+
+    #[DependsUsingDeepClone('testUpdate')]
+    public function testDelete(array $data): void
+    {
+        // Delete logic
+    }
+
+    #[DependsUsingShallowClone(methodName: 'testCreate')]
+    public function testRead(array $data): void
+    {
+        // Read logic
+    }
+
+    #[Depends('testCreate'), Depends('testRead')]
+    public function testMultipleDeps(array $create, array $read): void
+    {
+        // Multiple dependencies
+    }
+
+    #[DependsExternal(Users::class, 'testCreateUser')]
+    public function testExternal(array $user): void
+    {
+        // Depends on a test in another class
+    }
+
+    #[\PHPUnit\Framework\Attributes\DependsExternalUsingDeepClone('Tests\E2E\Services\Teams\TeamsTest', 'testCreateTeam')]
+    public function testExternalString(array $team): void
+    {
+        // Fully qualified attribute with string class name
+    }
+
+    #[DependsOnClass(SampleTest::class)]
+    public function testOnClass(): void
+    {
+        // Depends on every test of a class
+    }
+
+    /**
+     * Docblock and attributes together
+     */
+    #[Depends('testCreate')]
+    public function testWithDocblock(array $data): void
+    {
+        // Docblock followed by attribute
+    }
+}
@@ -0,0 +1,43 @@
+<?php
+
+namespace Tests\E2E\Services\Sample;
+
+use PHPUnit\Framework\Attributes\Depends;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\TestCase;
+
+class BddTest extends TestCase
+{
+    /**
+     * @test
+     */
+    public function it_creates_a_project(): array
+    {
+        return ['id' => 123];
+    }
+
+    /**
+     * @test
+     * @depends it_creates_a_project
+     */
+    public function it_updates_a_project(array $data): array
+    {
+        return array_merge($data, ['updated' => true]);
+    }
+
+    #[Test]
+    #[Depends('it_updates_a_project')]
+    public function it_deletes_a_project(array $data): void
+    {
+        // Attribute-marked test
+    }
+
+    /**
+     * @testdox Not a test marker
+     * @depends it_creates_a_project
+     */
+    public function describes_a_project(array $data): void
+    {
+        // Not a test, dependencies are ignored
+    }
+}
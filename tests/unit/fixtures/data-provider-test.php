@@ -0,0 +1,39 @@
+<?php
+
+namespace Tests\Unit;
+
+use PHPUnit\Framework\TestCase;
+
+class UsersTest extends TestCase
+{
+    public function testCreate(): array
+    {
+        return ['id' => 123];
+    }
+
+    public static function provideEmails(): array
+    {
+        return [
+            'valid email' => ['a@b.c'],
+            'invalid email' => ['not-an-email'],
+            ['user@example.com'],
+            [''],
+        ];
+    }
+
+    /**
+     * @depends testCreate
+     * @dataProvider provideEmails
+     */
+    public function testEmail(string $email, array $user): void
+    {
+        $this->assertTrue(filter_var($email, FILTER_VALIDATE_EMAIL) !== false);
+    }
+
+    /**
+     * @depends testEmail
+     */
+    public function testAfterEmail(): void
+    {
+    }
+}
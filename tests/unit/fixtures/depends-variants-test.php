@@ -0,0 +1,62 @@
+<?php
+
+namespace Tests\E2E\Services\Sample;
+
+use PHPUnit\Framework\TestCase;
+
+class DependsVariantsTest extends TestCase
+{
+    public function testCreate(): array
+    {
+        return ['id' => 123];
+    }
+
+    /**
+     * @depends clone testCreate
+     */
+    public function testClone(array $data): void
+    {
+        // Deep clone of the dependency result
+    }
+
+    /**
+     * @depends shallowClone testCreate
+     */
+    public function testShallowClone(array $data): void
+    {
+        // Shallow clone of the dependency result
+    }
+
+    /**
+     * @depends !clone testCreate
+     * @depends !shallowClone testClone
+     */
+    public function testNoClone(array $create, $clone): void
+    {
+        // Explicitly not cloned
+    }
+
+    /**
+     * @depends Tests\E2E\Services\Users\UsersTest::testCreateUser
+     */
+    public function testExternal(array $user): void
+    {
+        // Namespaced external dependency
+    }
+
+    /**
+     * @depends clone \Tests\E2E\Services\Teams\TeamsTest::testCreateTeam
+     */
+    public function testExternalLeadingSlash(array $team): void
+    {
+        // Leading backslash with clone modifier
+    }
+
+    /**
+     * @depends Tests\E2E\Services\Sample\SampleTest::class
+     */
+    public function testOnClass(): void
+    {
+        // Depends on every test of a class
+    }
+}
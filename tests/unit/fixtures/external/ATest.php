@@ -0,0 +1,21 @@
+<?php
+
+namespace Tests\E2E\Services\External;
+
+use PHPUnit\Framework\Attributes\DependsExternal;
+use PHPUnit\Framework\TestCase;
+
+class ATest extends TestCase
+{
+    #[DependsExternal(BTest::class, 'testB')]
+    public function testA(): void
+    {
+        // Depends on a test of a class in the same directory
+    }
+
+    #[DependsExternal(BTest::class, 'testMissing')]
+    public function testTypo(): void
+    {
+        // Depends on a test that does not exist
+    }
+}
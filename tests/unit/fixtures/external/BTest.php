@@ -0,0 +1,13 @@
+<?php
+
+namespace Tests\E2E\Services\External;
+
+use PHPUnit\Framework\TestCase;
+
+class BTest extends TestCase
+{
+    public function testB(): void
+    {
+        // Depended on by ATest
+    }
+}
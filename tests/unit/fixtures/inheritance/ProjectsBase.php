@@ -0,0 +1,29 @@
+<?php
+
+namespace Tests\E2E\Services\Projects;
+
+use Tests\E2E\Scopes\Scope;
+
+abstract class ProjectsBase extends Scope
+{
+    public function testCreate(): array
+    {
+        return ['id' => 123];
+    }
+
+    /**
+     * @depends testCreate
+     */
+    public function testUpdate(array $data): array
+    {
+        return array_merge($data, ['updated' => true]);
+    }
+
+    /**
+     * @depends testCreate
+     */
+    public function testOverridden(array $data): void
+    {
+        // Overridden by the concrete class
+    }
+}
@@ -0,0 +1,23 @@
+<?php
+
+namespace Tests\E2E\Services\Projects;
+
+use Tests\E2E\Scopes\SideConsole;
+
+class ProjectsConsoleClientTest extends ProjectsBase
+{
+    use ProjectsCustom, SideConsole;
+
+    /**
+     * @depends testUpdate
+     */
+    public function testDelete(array $data): void
+    {
+        // Depends on an inherited test
+    }
+
+    public function testOverridden(): void
+    {
+        // No dependencies anymore
+    }
+}
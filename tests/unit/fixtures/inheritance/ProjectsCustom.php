@@ -0,0 +1,14 @@
+<?php
+
+namespace Tests\E2E\Services\Projects;
+
+trait ProjectsCustom
+{
+    /**
+     * @depends testCreate
+     */
+    public function testCustom(array $data): void
+    {
+        // Provided by a trait, depends on a parent test
+    }
+}
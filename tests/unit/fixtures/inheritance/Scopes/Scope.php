@@ -0,0 +1,21 @@
+<?php
+
+namespace Tests\E2E\Scopes;
+
+use PHPUnit\Framework\TestCase;
+
+abstract class Scope extends TestCase
+{
+    public function testScopeSetup(): void
+    {
+        // Setup shared by every scope
+    }
+
+    /**
+     * @depends testScopeSetup
+     */
+    public function testScopeUsage(): void
+    {
+        // Depends on a test of the grandparent class
+    }
+}
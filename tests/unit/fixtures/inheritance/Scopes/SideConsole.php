@@ -0,0 +1,19 @@
+<?php
+
+namespace Tests\E2E\Scopes;
+
+trait SideConsole
+{
+    public function testSideSetup(): void
+    {
+        // Setup provided by the side trait
+    }
+
+    /**
+     * @depends testSideSetup
+     */
+    public function testSideUsage(): void
+    {
+        // Depends on a test of the same trait
+    }
+}
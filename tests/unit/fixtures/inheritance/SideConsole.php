@@ -0,0 +1,12 @@
+<?php
+
+namespace Tests\E2E\Services\Projects;
+
+// Same name as Tests\E2E\Scopes\SideConsole, used by ProjectsConsoleClientTest
+trait SideConsole
+{
+    public function testOtherSide(): void
+    {
+        // Not part of the used trait
+    }
+}
@@ -0,0 +1,62 @@
+<?php
+
+namespace Tests\E2E\Services\Invalid;
+
+use PHPUnit\Framework\Attributes\Depends;
+use PHPUnit\Framework\Attributes\DependsOnClass;
+use PHPUnit\Framework\TestCase;
+
+class InvalidDependsTest extends TestCase
+{
+    public function testCreate(): void
+    {
+    }
+
+    /**
+     * @depends testCreat
+     */
+    public function testTypo(): void
+    {
+    }
+
+    #[Depends('testSecond')]
+    public function testFirst(): void
+    {
+    }
+
+    #[Depends('testFirst')]
+    public function testSecond(): void
+    {
+    }
+
+    /**
+     * @depends testCreate
+     * @depends \Tests\E2E\Services\Missing\MissingTest::testSomething
+     */
+    public function testExternal(): void
+    {
+    }
+
+    #[DependsOnClass(InvalidDependsTest::class)]
+    public function testOwnClass(): void
+    {
+    }
+
+    /**
+     * @depends helper
+     */
+    public function testHelper(): void
+    {
+    }
+
+    /**
+     * @depends testSelf
+     */
+    public function testSelf(): void
+    {
+    }
+
+    private function helper(): void
+    {
+    }
+}
@@ -0,0 +1,32 @@
+<?php
+
+namespace Tests\Unit\Attributes;
+
+use PHPUnit\Framework\Attributes\DataProvider;
+use PHPUnit\Framework\Attributes\Depends;
+use PHPUnit\Framework\Attributes\TestWith;
+use PHPUnit\Framework\TestCase;
+
+#[\PHPUnit\Framework\Attributes\CoversNothing]
+class AttributesBetweenTest extends TestCase
+{
+    public function testCreate(): array
+    {
+        return [];
+    }
+
+    /**
+     * Docblock first, then attributes
+     */
+    #[DataProvider('provideValues')]
+    #[TestWith([1, [2, 3]]), TestWith(['a]b'])]
+    #[Depends('testCreate')]
+    public function testValues(int $value): void
+    {
+    }
+
+    #[Depends(methodName: 'testCreate')] #[\SensitiveParameter]
+    public function testNamedArgument(#[\SensitiveParameter] string $secret = ''): void
+    {
+    }
+}
@@ -0,0 +1,27 @@
+<?php
+
+namespace Tests\Unit\Alpha {
+    use PHPUnit\Framework\TestCase as Base;
+
+    class AlphaTest extends Base
+    {
+        public function testAlpha(): void
+        {
+        }
+    }
+}
+
+namespace Tests\Unit\Beta {
+    class BetaTest extends \PHPUnit\Framework\TestCase
+    {
+        public function testBeta(): void
+        {
+        }
+    }
+}
+
+namespace {
+    class GlobalTest extends Tests\Unit\Alpha\AlphaTest
+    {
+    }
+}
@@ -0,0 +1,59 @@
+<html>
+<!-- class NotPhp {} -->
+<?php
+
+// class CommentedOut extends Nothing {}
+# class HashCommented {}
+
+/*
+ * class BlockCommented {}
+ */
+
+namespace Tests\Unit\Strings;
+
+use PHPUnit\Framework\TestCase;
+
+class StringsTest extends TestCase
+{
+    private string $single = 'class Single { public function testFake() {} }';
+    private string $double = "class Double { {$this->single} }";
+
+    public function testHeredoc(): string
+    {
+        $heredoc = <<<PHP
+        class InHeredoc {
+            public function testNope() {}
+        }
+        PHP;
+
+        $nowdoc = <<<'PHP'
+class InNowdoc }}}
+PHP;
+
+        return $heredoc . $nowdoc . StringsTest::class;
+    }
+
+    public function testAnonymousClass(): object
+    {
+        return new class {
+            public function testHidden(): void
+            {
+            }
+        };
+    }
+
+    public function testAfterStrings(): void
+    {
+        $escaped = 'it\'s a class } ';
+        $closure = function () use ($escaped) {
+            return "}" . $escaped;
+        };
+    }
+}
+?>
+<p>class AfterClose {}</p>
+<?php
+
+class SecondBlockTest extends TestCase
+{
+}
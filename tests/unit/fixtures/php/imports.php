@@ -0,0 +1,40 @@
+<?php
+
+declare(strict_types=1);
+
+namespace Tests\Unit\Imports;
+
+use Tests\Support\{Base as SupportBase, Helpers\HasProjects};
+use Tests\Scopes\SideClient, Tests\Scopes\ProjectConsole as Console;
+use function Tests\Support\helper;
+use const Tests\Support\VALUE;
+
+abstract class ImportsTest extends SupportBase implements \Countable, namespace\Contract
+{
+    use HasProjects, Console {
+        Console::setup insteadof HasProjects;
+    }
+    use SideClient;
+    use Local\Helper;
+
+    public function testImports(): void
+    {
+    }
+}
+
+interface Contract extends \Countable, Other
+{
+    public function testInterface(): void;
+}
+
+trait LocalTrait
+{
+    public function testTrait(): void
+    {
+    }
+}
+
+enum Status: string
+{
+    case Active = 'active';
+}
@@ -0,0 +1,27 @@
+<?php
+
+namespace Tests\Unit\Multiple;
+
+use PHPUnit\Framework\TestCase;
+
+class FirstTest extends TestCase
+{
+    public function testFirst(): void
+    {
+    }
+}
+
+final class SecondTest extends TestCase
+{
+    public function testCreate(): array
+    {
+        return [];
+    }
+
+    /**
+     * @depends testCreate
+     */
+    public function testUpdate(array $data): void
+    {
+    }
+}
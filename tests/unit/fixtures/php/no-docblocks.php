@@ -0,0 +1,34 @@
+<?php
+
+namespace Tests\Unit\Docblocks;
+
+use PHPUnit\Framework\TestCase;
+
+class DocblocksTest extends TestCase
+{
+    /**
+     * @depends testCreate
+     */
+    private function helper(): void
+    {
+    }
+
+    public function testCreate(): array
+    {
+        return [];
+    }
+
+    public function testWithoutDocblock(): void
+    {
+        // The helper docblock must not be attributed to this method
+    }
+
+    /**
+     * Unrelated docblock separated by a property
+     */
+    private array $state = [];
+
+    public function testAfterProperty(): void
+    {
+    }
+}
@@ -0,0 +1,50 @@
+<?php
+
+namespace Tests\Unit\Modifiers;
+
+use PHPUnit\Framework\TestCase;
+
+class ModifiersTest extends TestCase
+{
+    /**
+     * @return array<string, array{string}>
+     */
+    public static function provideEmails(): array
+    {
+        return ['valid' => ['a@b.c']];
+    }
+
+    public function testCreate(): array
+    {
+        return [];
+    }
+
+    /**
+     * @depends testCreate
+     */
+    final public function testFinal(array $data): void
+    {
+    }
+
+    public static function testStatic(): void
+    {
+    }
+
+    protected function testProtectedHelper(): void
+    {
+    }
+
+    private function testPrivateHelper(): void
+    {
+    }
+
+    function testImplicitlyPublic(): void
+    {
+    }
+
+    public function &testByReference(): array
+    {
+        static $data = [];
+        return $data;
+    }
+}
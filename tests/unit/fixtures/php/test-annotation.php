@@ -0,0 +1,32 @@
+<?php
+
+namespace Tests\Unit\Annotations;
+
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\TestCase;
+
+class AnnotationsTest extends TestCase
+{
+    /**
+     * @test
+     */
+    public function it_creates_a_project(): array
+    {
+        return [];
+    }
+
+    /** @test */
+    public function it_updates_a_project(): void
+    {
+    }
+
+    /* @test */
+    public function plainComment(): void
+    {
+    }
+
+    #[Test]
+    public function it_deletes_a_project(): void
+    {
+    }
+}
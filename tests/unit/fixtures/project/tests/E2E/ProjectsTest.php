@@ -0,0 +1,16 @@
+<?php
+
+namespace Tests\E2E;
+
+use PHPUnit\Framework\TestCase;
+use Tests\Unit\AccountsTest;
+
+class ProjectsTest extends TestCase
+{
+    /**
+     * @depends \Tests\Unit\AccountsTest::testCreate
+     */
+    public function testCreateProject(array $account): void
+    {
+    }
+}
@@ -0,0 +1,12 @@
+<?php
+
+namespace Tests\Smoke;
+
+use PHPUnit\Framework\TestCase;
+
+class SmokeTest extends TestCase
+{
+    public function testHomepage(): void
+    {
+    }
+}
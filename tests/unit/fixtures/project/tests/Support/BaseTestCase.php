@@ -0,0 +1,12 @@
+<?php
+
+namespace Tests\Support;
+
+use PHPUnit\Framework\TestCase;
+
+abstract class BaseTestCase extends TestCase
+{
+    public function testHealth(): void
+    {
+    }
+}
@@ -0,0 +1,20 @@
+<?php
+
+namespace Tests\Unit;
+
+use Tests\Support\BaseTestCase;
+
+class AccountsTest extends BaseTestCase
+{
+    public function testCreate(): array
+    {
+        return ['id' => 1];
+    }
+
+    /**
+     * @depends testHealth
+     */
+    public function testRead(): void
+    {
+    }
+}
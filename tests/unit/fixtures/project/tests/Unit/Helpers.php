@@ -0,0 +1,7 @@
+<?php
+
+namespace Tests\Unit;
+
+class Helpers
+{
+}
@@ -0,0 +1,12 @@
+<?php
+
+namespace Tests\Unit\Legacy;
+
+use PHPUnit\Framework\TestCase;
+
+class OldTest extends TestCase
+{
+    public function testOld(): void
+    {
+    }
+}
@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'bun:test';
+import type { DependencyGraph } from '../../src/types';
+import {
+  formatDependencyGraph,
+  formatGraphAsDot,
+  formatGraphAsJson,
+  formatGraphAsMermaid,
+} from '../../src/utils/graph';
+
+const graph: DependencyGraph = {
+  nodes: [
+    { id: 'Tests\\SampleTest::testMultipleDeps', status: 'failed' },
+    { id: 'Tests\\SampleTest::testRead', status: 'flaky' },
+    { id: 'Tests\\SampleTest::testCreate', status: 'passed' },
+    { id: 'Tests\\Other\\UsersTest::class', status: 'passed' },
+  ],
+  edges: [
+    {
+      from: 'Tests\\SampleTest::testMultipleDeps',
+      to: 'Tests\\SampleTest::testCreate',
+    },
+    {
+      from: 'Tests\\SampleTest::testMultipleDeps',
+      to: 'Tests\\SampleTest::testRead',
+    },
+    {
+      from: 'Tests\\SampleTest::testRead',
+      to: 'Tests\\SampleTest::testCreate',
+    },
+    {
+      from: 'Tests\\SampleTest::testRead',
+      to: 'Tests\\Other\\UsersTest::class',
+    },
+  ],
+};
+
+describe('formatGraphAsDot', () => {
+  test('should declare every node with escaped ids', () => {
+    const dot = formatGraphAsDot(graph);
+
+    expect(dot).toStartWith('digraph dependencies {');
+    expect(dot).toEndWith('}');
+    expect(dot).toContain(
+      '"Tests\\\\SampleTest::testCreate" [label="SampleTest::testCreate"',
+    );
+    expect(dot).toContain('label="UsersTest (all tests)"');
+  });
+
+  test('should style nodes by status', () => {
+    const dot = formatGraphAsDot(graph);
+
+    expect(dot).toMatch(/testMultipleDeps" \[.*fillcolor="#f8d7da"/);
+    expect(dot).toMatch(/testRead" \[.*fillcolor="#fff3cd"/);
+    expect(dot).toMatch(/testCreate" \[.*fillcolor="#d4edda"/);
+  });
+
+  test('should point edges from dependency to dependent', () => {
+    const dot = formatGraphAsDot(graph);
+
+    expect(dot).toContain(
+      '"Tests\\\\SampleTest::testCreate" -> "Tests\\\\SampleTest::testMultipleDeps";',
+    );
+    // Diamond: both paths into testMultipleDeps are kept
+    expect(dot).toContain(
+      '"Tests\\\\SampleTest::testRead" -> "Tests\\\\SampleTest::testMultipleDeps";',
+    );
+  });
+});
+
+describe('formatGraphAsMermaid', () => {
+  test('should use safe node ids with labels and status classes', () => {
+    const mermaid = formatGraphAsMermaid(graph);
+
+    expect(mermaid).toStartWith('flowchart LR');
+    expect(mermaid).toContain('  n0["SampleTest::testMultipleDeps"]:::failed');
+    expect(mermaid).toContain('  n1["SampleTest::testRead"]:::flaky');
+    expect(mermaid).toContain('  n2["SampleTest::testCreate"]:::passed');
+    expect(mermaid).not.toContain('\\');
+  });
+
+  test('should link nodes and define status styles', () => {
+    const mermaid = formatGraphAsMermaid(graph);
+
+    expect(mermaid).toContain('  n2 --> n0');
+    expect(mermaid).toContain('  n1 --> n0');
+    expect(mermaid).toContain('  n3 --> n1');
+    expect(mermaid).toContain('classDef failed fill:#f8d7da,stroke:#dc3545');
+    expect(mermaid).toContain('classDef flaky');
+    expect(mermaid).toContain('classDef passed');
+  });
+});
+
+describe('formatGraphAsJson', () => {
+  test('should serialize nodes and edges', () => {
+    expect(JSON.parse(formatGraphAsJson(graph))).toEqual(graph);
+  });
+});
+
+describe('formatDependencyGraph', () => {
+  test('should dispatch by format', () => {
+    expect(formatDependencyGraph(graph, 'dot')).toBe(formatGraphAsDot(graph));
+    expect(formatDependencyGraph(graph, 'mermaid')).toBe(
+      formatGraphAsMermaid(graph),
+    );
+    expect(formatDependencyGraph(graph, 'json')).toBe(formatGraphAsJson(graph));
+  });
+});
@@ -1,9 +1,25 @@
 import '../mocks';
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from 'bun:test';
 import {
   findTestFileInWorkspace,
   extractFileFromContainer,
   cleanupExtractedFiles,
+  findPhpUnitConfig,
+  findJUnitReports,
+  getRetryDelay,
+  balanceGroups,
+  createLinePrefixer,
+  waitUntilHealthy,
+  isCommandHealthy,
+  isUrlHealthy,
+  runHookCommand,
 } from '../../src/utils/helpers';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -238,3 +254,348 @@ describe('cleanupExtractedFiles', () => {
     expect(fs.existsSync(tmpDir)).toBe(false);
   });
 });
+
+describe('findPhpUnitConfig', () => {
+  const ws = '/tmp/test-ws-config';
+  let originalWs: string | undefined;
+
+  beforeEach(() => {
+    originalWs = process.env.GITHUB_WORKSPACE;
+    process.env.GITHUB_WORKSPACE = ws;
+    fs.mkdirSync(ws, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (originalWs !== undefined) {
+      process.env.GITHUB_WORKSPACE = originalWs;
+    } else {
+      delete process.env.GITHUB_WORKSPACE;
+    }
+    fs.rmSync(ws, { recursive: true, force: true });
+  });
+
+  test('should prefer phpunit.xml over phpunit.xml.dist', () => {
+    fs.writeFileSync(path.join(ws, 'phpunit.xml.dist'), '<phpunit/>');
+    expect(findPhpUnitConfig()).toBe(path.join(ws, 'phpunit.xml.dist'));
+
+    fs.writeFileSync(path.join(ws, 'phpunit.xml'), '<phpunit/>');
+    expect(findPhpUnitConfig()).toBe(path.join(ws, 'phpunit.xml'));
+  });
+
+  test('should use the given path relative to the workspace', () => {
+    fs.mkdirSync(path.join(ws, 'app'));
+    fs.writeFileSync(path.join(ws, 'app/phpunit.e2e.xml'), '<phpunit/>');
+
+    expect(findPhpUnitConfig('app/phpunit.e2e.xml')).toBe(
+      path.join(ws, 'app/phpunit.e2e.xml'),
+    );
+    expect(findPhpUnitConfig('app')).toBeNull();
+  });
+
+  test('should return null without a config', () => {
+    expect(findPhpUnitConfig()).toBeNull();
+  });
+});
+
+describe('findJUnitReports', () => {
+  const ws = '/tmp/test-ws-junit';
+  let originalWs: string | undefined;
+
+  beforeEach(() => {
+    originalWs = process.env.GITHUB_WORKSPACE;
+    process.env.GITHUB_WORKSPACE = ws;
+    fs.mkdirSync(path.join(ws, 'reports'), { recursive: true });
+    for (const name of ['worker-2.xml', 'worker-1.xml', 'notes.txt']) {
+      fs.writeFileSync(path.join(ws, 'reports', name), '<testsuites/>');
+    }
+  });
+
+  afterEach(() => {
+    if (originalWs !== undefined) {
+      process.env.GITHUB_WORKSPACE = originalWs;
+    } else {
+      delete process.env.GITHUB_WORKSPACE;
+    }
+    fs.rmSync(ws, { recursive: true, force: true });
+  });
+
+  test('should expand globs relative to the workspace', () => {
+    expect(findJUnitReports(['reports/*.xml'])).toEqual([
+      path.join(ws, 'reports/worker-1.xml'),
+      path.join(ws, 'reports/worker-2.xml'),
+    ]);
+  });
+
+  test('should keep existing paths once and skip missing ones', () => {
+    const report = path.join(ws, 'reports/worker-1.xml');
+
+    expect(
+      findJUnitReports([report, 'reports/worker-*.xml', 'missing.xml']),
+    ).toEqual([report, path.join(ws, 'reports/worker-2.xml')]);
+  });
+
+  test('should skip reports written before the given time', () => {
+    const stale = path.join(ws, 'reports/worker-1.xml');
+    const past = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(stale, past, past);
+
+    expect(findJUnitReports(['reports/*.xml'], Date.now() - 5000)).toEqual([
+      path.join(ws, 'reports/worker-2.xml'),
+    ]);
+  });
+});
+
+describe('getRetryDelay', () => {
+  test('should grow the delay with the retry number', () => {
+    const delays = (backoff: Parameters<typeof getRetryDelay>[0]) =>
+      [1, 2, 3, 4].map((retry) => getRetryDelay(backoff, retry, 10000));
+
+    expect(delays('fixed')).toEqual([10000, 10000, 10000, 10000]);
+    expect(delays('linear')).toEqual([10000, 20000, 30000, 40000]);
+    expect(delays('exponential')).toEqual([10000, 20000, 40000, 80000]);
+  });
+
+  test('should cap the delay at the max wait', () => {
+    expect(getRetryDelay('exponential', 5, 10000, 60000)).toBe(60000);
+    expect(getRetryDelay('fixed', 1, 10000, 60000)).toBe(10000);
+  });
+
+  test('should pick decorrelated delays between the base and three times the previous one', () => {
+    let previous = 10000;
+    for (let retry = 1; retry <= 20; retry++) {
+      const delay = getRetryDelay(
+        'decorrelated',
+        retry,
+        10000,
+        120000,
+        previous,
+      );
+      expect(delay).toBeGreaterThanOrEqual(10000);
+      expect(delay).toBeLessThanOrEqual(Math.min(previous * 3, 120000));
+      previous = delay;
+    }
+  });
+});
+
+describe('waitUntilHealthy', () => {
+  test('should poll until the check passes', async () => {
+    let polls = 0;
+    const healthy = await waitUntilHealthy(async () => ++polls === 3, 1000, 10);
+
+    expect(healthy).toBe(true);
+    expect(polls).toBe(3);
+  });
+
+  test('should give up after the timeout', async () => {
+    let polls = 0;
+    const healthy = await waitUntilHealthy(
+      async () => {
+        polls++;
+        return false;
+      },
+      100,
+      30,
+    );
+
+    expect(healthy).toBe(false);
+    expect(polls).toBeGreaterThan(1);
+    expect(polls).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('isCommandHealthy', () => {
+  test('should pass on exit code 0', async () => {
+    expect(await isCommandHealthy('exit 0', 'bash', 5000)).toBe(true);
+    expect(await isCommandHealthy('exit 1', 'bash', 5000)).toBe(false);
+  });
+
+  test('should fail commands exceeding the timeout', async () => {
+    expect(await isCommandHealthy('sleep 5', 'bash', 100)).toBe(false);
+  });
+
+  test('should kill the whole process tree on timeout', async () => {
+    const marker = path.join(os.tmpdir(), `health-check-${process.pid}`);
+    fs.rmSync(marker, { force: true });
+
+    const startedAt = Date.now();
+    expect(
+      await isCommandHealthy(`(sleep 1; touch ${marker}) & wait`, 'bash', 100),
+    ).toBe(false);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+});
+
+describe('runHookCommand', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hook-test-'));
+  const outFile = path.join(tmpDir, 'out.txt');
+  let originalRunnerTemp: string | undefined;
+
+  const run = {
+    attempt: 2,
+    exitCode: 1,
+    tests: [
+      {
+        name: 'Tests\\ApiTest::testCreate',
+        class: 'ApiTest',
+        method: 'testCreate',
+        file: 'tests/ApiTest.php',
+      },
+      {
+        name: 'Tests\\ApiTest::testList',
+        class: 'ApiTest',
+        method: 'testList',
+        file: 'tests/ApiTest.php',
+      },
+    ],
+  };
+  const options = (hookFailure: 'warn' | 'stop' | 'fail', timeoutMs = 0) => ({
+    executable: 'bash',
+    hookFailure,
+    timeoutMs,
+  });
+
+  beforeEach(() => {
+    originalRunnerTemp = process.env.RUNNER_TEMP;
+    process.env.RUNNER_TEMP = tmpDir;
+  });
+
+  afterEach(() => {
+    if (originalRunnerTemp !== undefined) {
+      process.env.RUNNER_TEMP = originalRunnerTemp;
+    } else {
+      delete process.env.RUNNER_TEMP;
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should pass the attempt, exit code and tests file', async () => {
+    const passed = await runHookCommand(
+      'before_retry_command',
+      `printenv PHPUNIT_RETRY_ATTEMPT PHPUNIT_RETRY_EXIT_CODE PHPUNIT_RETRY_TESTS_FILE > ${outFile}`,
+      run,
+      options('fail'),
+    );
+
+    expect(passed).toBe(true);
+    expect(fs.readFileSync(outFile, 'utf-8')).toBe(
+      `2\n1\n${path.join(tmpDir, 'phpunit-retry-tests.txt')}\n`,
+    );
+  });
+
+  test('should list the tests in the tests file', async () => {
+    await runHookCommand(
+      'after_attempt_command',
+      `cat "$PHPUNIT_RETRY_TESTS_FILE" > ${outFile}`,
+      run,
+      options('fail'),
+    );
+
+    expect(fs.readFileSync(outFile, 'utf-8')).toBe(
+      'Tests\\ApiTest::testCreate\nTests\\ApiTest::testList\n',
+    );
+  });
+
+  test('should keep retrying when a hook fails with warn', async () => {
+    expect(
+      await runHookCommand(
+        'before_retry_command',
+        'exit 1',
+        run,
+        options('warn'),
+      ),
+    ).toBe(true);
+  });
+
+  test('should stop retrying when a hook fails with stop', async () => {
+    expect(
+      await runHookCommand(
+        'before_retry_command',
+        'exit 1',
+        run,
+        options('stop'),
+      ),
+    ).toBe(false);
+  });
+
+  test('should throw when a hook fails with fail', async () => {
+    await expect(
+      runHookCommand('after_attempt_command', 'exit 3', run, options('fail')),
+    ).rejects.toThrow('after_attempt_command exited with code 3');
+  });
+
+  test('should fail hooks exceeding the timeout', async () => {
+    await expect(
+      runHookCommand(
+        'before_retry_command',
+        'sleep 5',
+        run,
+        options('fail', 100),
+      ),
+    ).rejects.toThrow('before_retry_command exceeded the timeout of 100ms');
+  });
+});
+
+describe('isUrlHealthy', () => {
+  // Stands in for a service that is still restarting
+  let status = 503;
+  const server = Bun.serve({
+    port: 0,
+    fetch: () => new Response('', { status }),
+  });
+
+  afterAll(() => server.stop(true));
+
+  test('should pass once the URL responds with 2xx', async () => {
+    const url = `http://localhost:${server.port}/health`;
+
+    status = 503;
+    expect(await isUrlHealthy(url, 1000)).toBe(false);
+    status = 200;
+    expect(await isUrlHealthy(url, 1000)).toBe(true);
+  });
+
+  test('should fail when nothing listens', async () => {
+    server.stop(true);
+    expect(await isUrlHealthy(`http://localhost:${server.port}/`, 1000)).toBe(
+      false,
+    );
+  });
+});
+
+describe('balanceGroups', () => {
+  test('should pack groups into batches of similar size', () => {
+    const batches = balanceGroups(
+      [['a'], ['b', 'c', 'd'], ['e'], ['f', 'g']],
+      2,
+    );
+
+    expect(batches).toEqual([
+      ['b', 'c', 'd', 'e'],
+      ['f', 'g', 'a'],
+    ]);
+  });
+
+  test('should not create more batches than groups', () => {
+    expect(balanceGroups([['a'], ['b']], 4)).toEqual([['a'], ['b']]);
+    expect(balanceGroups([], 4)).toEqual([]);
+  });
+});
+
+describe('createLinePrefixer', () => {
+  test('should prefix complete lines across chunks', () => {
+    const prefix = createLinePrefixer('[worker 1] ');
+
+    expect(prefix('PHPUnit 10.5\nRun')).toBe('[worker 1] PHPUnit 10.5\n');
+    expect(prefix('time: 00:01\n\nOK')).toBe(
+      '[worker 1] Runtime: 00:01\n[worker 1] \n',
+    );
+    expect(prefix(' (2 tests)', true)).toBe('[worker 1] OK (2 tests)\n');
+    expect(prefix('', true)).toBe('');
+  });
+});
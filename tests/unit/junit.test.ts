@@ -1,5 +1,7 @@
 import { describe, test, expect } from 'bun:test';
-import { JUnitParser } from '../../src/parsers/junit';
+import { JUnitParser, findExceptionClass } from '../../src/parsers/junit';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 describe('JUnitParser', () => {
@@ -91,4 +93,263 @@ describe('JUnitParser', () => {
     expect(failures[0]?.line).toBe(78);
     expect(failures[0]?.name).toContain('::');
   });
+
+  test('should split data set from method name', () => {
+    const xmlPath = path.join(fixturesDir, 'data-provider.xml');
+    const failures = parser.parseXMLFile(xmlPath);
+
+    expect(failures).toHaveLength(2);
+    expect(failures.map((f) => [f.method, f.dataSet])).toEqual([
+      ['testEmail', '@invalid email'],
+      ['testEmail', '#3'],
+    ]);
+  });
+
+  test('should keep data set in full test names', () => {
+    const xmlPath = path.join(fixturesDir, 'data-provider.xml');
+    const failures = parser.parseXMLFile(xmlPath);
+
+    expect(failures[0]?.name).toBe(
+      'Tests\\Unit\\UsersTest::testEmail with data set "invalid email"',
+    );
+    expect(failures[1]?.name).toBe(
+      'Tests\\Unit\\UsersTest::testEmail with data set #3',
+    );
+  });
+
+  test('should not set data set for regular tests', () => {
+    const xmlPath = path.join(fixturesDir, 'sample-junit.xml');
+    const failures = parser.parseXMLFile(xmlPath);
+
+    expect(failures.every((f) => f.dataSet === undefined)).toBe(true);
+  });
+
+  describe('outcomes', () => {
+    const xmlPath = path.join(fixturesDir, 'outcomes.xml');
+
+    test('should report the outcome of every test case', () => {
+      const testCases = parser.parseTestCases(xmlPath);
+
+      expect(testCases.map((t) => [t.method, t.outcome])).toEqual([
+        ['testCreate', 'failed'],
+        ['testUpdate', 'skipped'],
+        ['testDelete', 'skipped'],
+        ['testRead', 'risky'],
+        ['testMultipleDeps', 'warning'],
+        ['testIndependent', 'skipped'],
+        ['testPending', 'incomplete'],
+        ['testTodo', 'incomplete'],
+        ['testCrash', 'error'],
+      ]);
+    });
+
+    test('should keep skip messages', () => {
+      const testCases = parser.parseTestCases(xmlPath);
+
+      expect(testCases[1]?.error).toBeUndefined();
+      expect(testCases[2]?.error).toBe(
+        'This test depends on "Tests\\E2E\\Services\\Sample\\SampleTest::testUpdate" to pass',
+      );
+    });
+
+    test('should not report risky, incomplete or warning tests as failures', () => {
+      const failures = parser.parseXMLFile(xmlPath);
+
+      expect(failures.map((f) => f.method)).toEqual([
+        'testCreate',
+        'testCrash',
+      ]);
+      expect(failures[0]).not.toHaveProperty('outcome');
+    });
+
+    test('should count outcomes in test stats', () => {
+      expect(parser.getTestStats(xmlPath)).toEqual({
+        total: 9,
+        failures: 3,
+        assertions: 4,
+        skipped: 3,
+        incomplete: 2,
+        risky: 1,
+        warnings: 1,
+      });
+    });
+  });
+
+  describe('failure details', () => {
+    const xmlPath = path.join(fixturesDir, 'failure-details.xml');
+
+    test('should keep the exception type and full trace', () => {
+      const [failure, error] = parser.parseXMLFile(xmlPath);
+
+      expect(failure?.errorType).toBe(
+        'PHPUnit\\Framework\\ExpectationFailedException',
+      );
+      expect(error?.errorType).toBe('TypeError');
+      expect(failure?.trace).toContain('Failed asserting that 500');
+      expect(failure?.trace?.split('\n')).toHaveLength(6);
+    });
+
+    test('should find the first in-project frame', () => {
+      const failures = parser.parseXMLFile(xmlPath);
+
+      expect(failures.map((f) => f.frame)).toEqual([
+        { file: '/usr/src/code/tests/e2e/Scopes/ProjectScope.php', line: 58 },
+        undefined,
+        {
+          file: '/usr/src/code/vendor/appwrite/server-ce/tests/e2e/VendoredTest.php',
+          line: 15,
+        },
+      ]);
+    });
+
+    test('should capture system-out and system-err', () => {
+      const [failure, error] = parser.parseXMLFile(xmlPath);
+
+      expect(failure?.systemOut).toBe(
+        'POST /v1/projects 500\n{"message":"Server Error"}',
+      );
+      expect(failure?.systemErr).toBe('PHP Warning:  Undefined array key "id"');
+      expect(error?.systemOut).toBeUndefined();
+    });
+
+    test('should prefer the message attribute as error', () => {
+      const failures = parser.parseXMLFile(xmlPath);
+
+      expect(failures[2]?.error).toBe('Failed asserting that false is true.');
+      expect(failures[2]?.trace).toStartWith(
+        'Tests\\E2E\\Services\\Vendored\\VendoredTest::testVendored',
+      );
+    });
+  });
+
+  describe('streaming', () => {
+    const testCase = (i: number) =>
+      `<testcase name="test${i}" class="Tests\\BigTest" file="/code/tests/BigTest.php" line="${i}">` +
+      `<system-out>${'x'.repeat(100)}</system-out></testcase>`;
+
+    test('should truncate traces and output over the limit', () => {
+      const xmlPath = path.join(fixturesDir, 'failure-details.xml');
+      const [failure] = new JUnitParser(30).parseXMLFile(xmlPath);
+
+      expect(failure?.systemOut).toBe(
+        'POST /v1/projects 500\n{"messag\n... (19 more characters truncated)',
+      );
+      expect(failure?.trace).toStartWith(
+        'Tests\\E2E\\Services\\Projects\\Pr\n...',
+      );
+    });
+
+    test('should not keep output of passed tests', () => {
+      const testCases = parser.parseTestCases(
+        path.join(fixturesDir, 'failure-details.xml'),
+      );
+
+      expect(testCases[2]?.outcome).toBe('passed');
+      expect(testCases[2]?.systemOut).toBeUndefined();
+    });
+
+    test('should yield test cases before the whole file is read', () => {
+      const xmlPath = path.join(os.tmpdir(), 'phpunit-retry-streaming.xml');
+      const testCases = Array.from({ length: 2000 }, (_, i) => testCase(i));
+      // Far more than one read chunk, cut off in the middle of a test case
+      fs.writeFileSync(
+        xmlPath,
+        `<testsuites><testsuite>${testCases.join('')}<testcase name="cut`,
+      );
+
+      try {
+        const reader = parser.readTestCases(xmlPath);
+        expect(reader.next().value).toMatchObject({ method: 'test0' });
+        expect(() => Array.from(reader)).toThrow(
+          'Unexpected end of XML document',
+        );
+      } finally {
+        fs.unlinkSync(xmlPath);
+      }
+    });
+
+    test('should return stats after the last test case', () => {
+      const reader = parser.readTestCases(
+        path.join(fixturesDir, 'outcomes.xml'),
+      );
+
+      let next = reader.next();
+      let count = 0;
+      while (!next.done) {
+        count++;
+        next = reader.next();
+      }
+
+      expect(count).toBe(9);
+      expect(next.value).toMatchObject({ total: 9, skipped: 3 });
+    });
+  });
+
+  describe('merging', () => {
+    const unitPath = path.join(fixturesDir, 'merge-unit.xml');
+    const e2ePath = path.join(fixturesDir, 'merge-e2e.xml');
+
+    test('should collect test cases from every report', () => {
+      const { testCases } = parser.parseReports([unitPath, e2ePath]);
+
+      expect(testCases.map((t) => t.name)).toEqual([
+        'Tests\\Unit\\MathTest::testAdd',
+        'Tests\\Unit\\MathTest::testDivide',
+        'Tests\\Shared\\SmokeTest::testPing',
+        'Tests\\E2E\\ApiTest::testCreate',
+        'Tests\\E2E\\ApiTest::testList',
+      ]);
+    });
+
+    test('should keep the most severe outcome of duplicate tests', () => {
+      for (const paths of [
+        [unitPath, e2ePath],
+        [e2ePath, unitPath],
+      ]) {
+        const testCase = parser
+          .parseReports(paths)
+          .testCases.find((t) => t.method === 'testPing');
+
+        expect(testCase?.outcome).toBe('failed');
+        expect(testCase?.error).toContain('503');
+      }
+    });
+
+    test('should count duplicate tests once in the stats', () => {
+      expect(parser.parseReports([unitPath, e2ePath]).stats).toEqual({
+        total: 5,
+        failures: 3,
+        assertions: 7,
+        skipped: 1,
+        incomplete: 0,
+        risky: 0,
+        warnings: 0,
+      });
+    });
+
+    test('should read a single report unchanged', () => {
+      expect(parser.parseReports([unitPath])).toEqual(
+        parser.parseReport(unitPath),
+      );
+    });
+  });
+});
+
+describe('findExceptionClass', () => {
+  test('should find the class printed before the message', () => {
+    expect(findExceptionClass('RuntimeException: Connection refused')).toBe(
+      'RuntimeException',
+    );
+    expect(findExceptionClass('\\App\\Http\\TimeoutError: after 5s')).toBe(
+      'App\\Http\\TimeoutError',
+    );
+    expect(findExceptionClass('TypeError')).toBe('TypeError');
+  });
+
+  test('should find nothing in assertion messages', () => {
+    expect(findExceptionClass('Failed asserting that 500 is 201.')).toBe(
+      undefined,
+    );
+    expect(findExceptionClass(undefined)).toBe(undefined);
+  });
 });
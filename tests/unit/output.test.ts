@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'bun:test';
+import { OutputParser } from '../../src/parsers/output';
+import { TeamCityParser } from '../../src/parsers/teamcity';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Feed the output in chunks of `size` characters, like a child's stdout
+function parse(output: string, size = output.length) {
+  const parser = new OutputParser();
+  for (let i = 0; i < output.length; i += size) {
+    parser.write(output.substring(i, i + size));
+  }
+  return { report: parser.end(), parser };
+}
+
+describe('OutputParser', () => {
+  const fixturesDir = path.join(__dirname, 'fixtures');
+  const defaultOutput = fs.readFileSync(
+    path.join(fixturesDir, 'output-default.txt'),
+    'utf-8',
+  );
+  const testdoxOutput = fs.readFileSync(
+    path.join(fixturesDir, 'output-testdox.txt'),
+    'utf-8',
+  );
+
+  describe('default output', () => {
+    test('should list the tests of every defect section', () => {
+      const { report } = parse(defaultOutput);
+
+      expect(report.testCases.map((t) => [t.name, t.outcome])).toEqual([
+        ['Tests\\E2E\\ApiTest::testUpload', 'error'],
+        ['Tests\\E2E\\ApiTest::testCreate', 'failed'],
+        ['Tests\\E2E\\ApiTest::testEmail with data set #1', 'failed'],
+        ['Tests\\Unit\\MathTest::testNothing', 'risky'],
+        ['Tests\\E2E\\ApiTest::testList', 'skipped'],
+      ]);
+    });
+
+    test('should extract messages, frames and files', () => {
+      const [error, , dataSet] = parse(defaultOutput).report.testCases;
+
+      expect(error).toMatchObject({
+        class: 'ApiTest',
+        method: 'testUpload',
+        file: '/usr/src/code/tests/E2E/ApiTest.php',
+        error: 'RuntimeException: Connection refused',
+        errorType: 'RuntimeException',
+        frame: { file: '/usr/src/code/tests/E2E/ApiTest.php', line: 30 },
+      });
+      expect(dataSet).toMatchObject({ method: 'testEmail', dataSet: '#1' });
+    });
+
+    test('should take totals from the summary', () => {
+      const { stats } = parse(defaultOutput).report;
+
+      expect(stats).toMatchObject({
+        total: 10,
+        assertions: 14,
+        failures: 3,
+        skipped: 1,
+        risky: 1,
+      });
+    });
+
+    test('should give the same results for any chunk size', () => {
+      const expected = parse(defaultOutput).report;
+      for (const size of [1, 7, 64]) {
+        expect(parse(defaultOutput, size).report).toEqual(expected);
+      }
+    });
+
+    test('should ignore color codes', () => {
+      const colored = defaultOutput.replace(
+        /^(There were 2 failures:)$/m,
+        '\x1b[37;41m$1\x1b[0m',
+      );
+
+      expect(parse(colored).report.testCases).toHaveLength(5);
+    });
+  });
+
+  describe('testdox output', () => {
+    test('should guess test names from prettified output', () => {
+      const { report } = parse(testdoxOutput);
+
+      expect(report.testCases.map((t) => [t.name, t.outcome])).toEqual([
+        ['Tests\\E2E\\ApiTest::testListProjects', 'passed'],
+        ['Tests\\E2E\\ApiTest::testCreateProject', 'failed'],
+        ['Tests\\E2E\\ApiTest::testEmail with data set #1', 'failed'],
+        ['Tests\\E2E\\ApiTest::testUpload', 'skipped'],
+        ['Tests\\Unit\\MathTest::testAdd', 'passed'],
+      ]);
+      expect(report.testCases[1]).toMatchObject({
+        error: 'Failed asserting that 500 matches expected 201.',
+        frame: { file: '/usr/src/code/tests/E2E/ApiTest.php', line: 14 },
+      });
+    });
+
+    test('should mark classes with defects as approximate', () => {
+      const { parser } = parse(testdoxOutput);
+
+      expect([...parser.approximateClasses]).toEqual(['Tests\\E2E\\ApiTest']);
+    });
+
+    test('should prefer exact defect lists over testdox names', () => {
+      const { report, parser } = parse(`${testdoxOutput}\n${defaultOutput}`);
+
+      expect(report.testCases).toHaveLength(5);
+      expect(report.testCases[0]?.name).toBe('Tests\\E2E\\ApiTest::testUpload');
+      expect(parser.approximateClasses.size).toBe(0);
+    });
+  });
+
+  describe('teamcity output', () => {
+    const teamcityOutput = fs.readFileSync(
+      path.join(fixturesDir, 'teamcity.txt'),
+      'utf-8',
+    );
+
+    test('should read the service messages of --teamcity', () => {
+      const { report } = parse(teamcityOutput, 64);
+
+      expect(report).toEqual(new TeamCityParser().parseLog(teamcityOutput));
+      expect(report.testCases.map((t) => [t.method, t.outcome])).toContainEqual(
+        ['testCreate', 'failed'],
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, test, expect } from 'bun:test';
+import { PhpSourceScanner } from '../../src/parsers/php';
+import * as path from 'path';
+
+describe('PhpSourceScanner', () => {
+  const scanner = new PhpSourceScanner();
+  const fixturesDir = path.join(__dirname, 'fixtures', 'php');
+
+  const scanFixture = (name: string) =>
+    scanner.scanFile(path.join(fixturesDir, name));
+
+  const methodNames = (name: string, className: string) =>
+    scanFixture(name)
+      .find((c) => c.name === className)!
+      .methods.map((m) => m.name);
+
+  describe('tokenize', () => {
+    test('should tokenize names, variables, strings and punctuation', () => {
+      const tokens = scanner.tokenize("<?php $a = \\Foo\\Bar::class . 'x{';");
+
+      expect(tokens.map((t) => [t.type, t.value])).toEqual([
+        ['variable', '$a'],
+        ['punct', '='],
+        ['name', '\\Foo\\Bar'],
+        ['punct', '::'],
+        ['name', 'class'],
+        ['punct', '.'],
+        ['string', "'x{'"],
+        ['punct', ';'],
+      ]);
+    });
+
+    test('should keep docblocks and drop other comments', () => {
+      const tokens = scanner.tokenize(
+        '<?php\n/** doc */\n/* block */\n// line\n# hash\n/**/ foo',
+      );
+
+      expect(tokens.map((t) => t.type)).toEqual(['doc', 'name']);
+      expect(tokens[0]!.value).toBe('/** doc */');
+    });
+
+    test('should track line numbers', () => {
+      const tokens = scanner.tokenize('<?php\n\nfoo\n/**\n *\n */\nbar');
+
+      expect(tokens.map((t) => t.line)).toEqual([3, 4, 7]);
+    });
+
+    test('should skip inline HTML', () => {
+      const tokens = scanner.tokenize(
+        '<p>class A {}</p><?php foo ?>bar<?= baz',
+      );
+
+      expect(tokens.map((t) => t.value)).toEqual(['foo', 'baz']);
+    });
+
+    test('should read heredocs and nowdocs as single strings', () => {
+      const tokens = scanner.tokenize(
+        "<?php $a = <<<EOT\n  class { \n  EOT;\n$b = <<<'EOT'\n}\nEOT;",
+      );
+
+      expect(tokens.filter((t) => t.type === 'string')).toHaveLength(2);
+      expect(tokens.filter((t) => t.value === '{')).toHaveLength(0);
+    });
+  });
+
+  describe('scan', () => {
+    test('should find every class in a file', () => {
+      const classes = scanFixture('multiple-classes.php');
+
+      expect(classes.map((c) => c.fullName)).toEqual([
+        'Tests\\Unit\\Multiple\\FirstTest',
+        'Tests\\Unit\\Multiple\\SecondTest',
+      ]);
+      expect(classes[1]!.modifiers).toEqual(['final']);
+      expect(classes[1]!.methods.map((m) => m.name)).toEqual([
+        'testCreate',
+        'testUpdate',
+      ]);
+      expect(classes[1]!.methods[1]!.docblock).toContain('@depends testCreate');
+    });
+
+    test('should resolve names per braced namespace', () => {
+      const classes = scanFixture('braced-namespaces.php');
+
+      expect(classes.map((c) => [c.fullName, c.parent])).toEqual([
+        ['Tests\\Unit\\Alpha\\AlphaTest', 'PHPUnit\\Framework\\TestCase'],
+        ['Tests\\Unit\\Beta\\BetaTest', 'PHPUnit\\Framework\\TestCase'],
+        ['GlobalTest', 'Tests\\Unit\\Alpha\\AlphaTest'],
+      ]);
+    });
+
+    test('should collect method modifiers', () => {
+      const methods = scanFixture('static-methods.php')[0]!.methods;
+      const modifiers = Object.fromEntries(
+        methods.map((m) => [m.name, m.modifiers]),
+      );
+
+      expect(modifiers).toEqual({
+        provideEmails: ['public', 'static'],
+        testCreate: ['public'],
+        testFinal: ['final', 'public'],
+        testStatic: ['public', 'static'],
+        testProtectedHelper: ['protected'],
+        testPrivateHelper: ['private'],
+        testImplicitlyPublic: [],
+        testByReference: ['public'],
+      });
+    });
+
+    test('should attach docblocks only to the declaration they precede', () => {
+      const methods = scanFixture('static-methods.php')[0]!.methods;
+
+      expect(methods[0]!.docblock).toContain('@return');
+      expect(methods[1]!.docblock).toBeUndefined();
+      expect(methods[2]!.docblock).toContain('@depends testCreate');
+    });
+
+    test('should not leak docblocks across methods and properties', () => {
+      const methods = scanFixture('no-docblocks.php')[0]!.methods;
+
+      expect(methods.map((m) => [m.name, m.docblock !== undefined])).toEqual([
+        ['helper', true],
+        ['testCreate', false],
+        ['testWithoutDocblock', false],
+        ['testAfterProperty', false],
+      ]);
+    });
+
+    test('should parse attributes between docblock and signature', () => {
+      const declaration = scanFixture('attributes-between.php')[0]!;
+      const method = declaration.methods.find((m) => m.name === 'testValues')!;
+
+      expect(declaration.attributes.map((a) => a.name)).toEqual([
+        'PHPUnit\\Framework\\Attributes\\CoversNothing',
+      ]);
+      expect(method.docblock).toContain('Docblock first');
+      expect(method.attributes.map((a) => a.name.split('\\').pop())).toEqual([
+        'DataProvider',
+        'TestWith',
+        'TestWith',
+        'Depends',
+      ]);
+      expect(method.attributes[0]!.name).toBe(
+        'PHPUnit\\Framework\\Attributes\\DataProvider',
+      );
+      expect(method.attributes[1]!.arguments).toEqual([
+        { name: undefined, value: '[1,[2,3]]' },
+      ]);
+      expect(method.attributes[2]!.arguments[0]!.value).toBe("['a]b']");
+      expect(method.attributes[3]!.arguments[0]!.value).toBe("'testCreate'");
+    });
+
+    test('should parse named attribute arguments', () => {
+      const method = scanFixture('attributes-between.php')[0]!.methods.find(
+        (m) => m.name === 'testNamedArgument',
+      )!;
+
+      expect(method.attributes).toEqual([
+        {
+          name: 'PHPUnit\\Framework\\Attributes\\Depends',
+          arguments: [{ name: 'methodName', value: "'testCreate'" }],
+        },
+        { name: 'SensitiveParameter', arguments: [] },
+      ]);
+    });
+
+    test('should ignore classes in comments, strings and inline HTML', () => {
+      const classes = scanFixture('class-in-strings.php');
+
+      expect(classes.map((c) => c.name)).toEqual([
+        'StringsTest',
+        'SecondBlockTest',
+      ]);
+      expect(methodNames('class-in-strings.php', 'StringsTest')).toEqual([
+        'testHeredoc',
+        'testAnonymousClass',
+        'testAfterStrings',
+      ]);
+    });
+
+    test('should keep docblocks of non-test-prefixed methods', () => {
+      const methods = scanFixture('test-annotation.php')[0]!.methods;
+
+      expect(methods.map((m) => m.name)).toEqual([
+        'it_creates_a_project',
+        'it_updates_a_project',
+        'plainComment',
+        'it_deletes_a_project',
+      ]);
+      expect(methods[0]!.docblock).toContain('@test');
+      expect(methods[1]!.docblock).toBe('/** @test */');
+      // Regular comments are not docblocks, PHPUnit ignores them too
+      expect(methods[2]!.docblock).toBeUndefined();
+      expect(methods[3]!.attributes[0]!.name).toBe(
+        'PHPUnit\\Framework\\Attributes\\Test',
+      );
+    });
+
+    test('should resolve imports, aliases and group uses', () => {
+      const [imports] = scanFixture('imports.php');
+
+      expect(imports!.modifiers).toEqual(['abstract']);
+      expect(imports!.parent).toBe('Tests\\Support\\Base');
+      expect(imports!.interfaces).toEqual([
+        'Countable',
+        'Tests\\Unit\\Imports\\Contract',
+      ]);
+      expect(imports!.traits).toEqual([
+        'Tests\\Support\\Helpers\\HasProjects',
+        'Tests\\Scopes\\ProjectConsole',
+        'Tests\\Scopes\\SideClient',
+        'Tests\\Unit\\Imports\\Local\\Helper',
+      ]);
+      expect(imports!.methods.map((m) => m.name)).toEqual(['testImports']);
+    });
+
+    test('should report the kind of each class-like', () => {
+      const classes = scanFixture('imports.php');
+
+      expect(classes.map((c) => [c.name, c.kind])).toEqual([
+        ['ImportsTest', 'class'],
+        ['Contract', 'interface'],
+        ['LocalTrait', 'trait'],
+        ['Status', 'enum'],
+      ]);
+      expect(classes[1]!.parent).toBeUndefined();
+      expect(classes[1]!.interfaces).toEqual([
+        'Countable',
+        'Tests\\Unit\\Imports\\Other',
+      ]);
+    });
+
+    test('should record declaration lines', () => {
+      const [declaration] = scanFixture('multiple-classes.php');
+
+      expect(declaration!.line).toBe(7);
+      expect(declaration!.methods[0]!.line).toBe(9);
+    });
+  });
+});
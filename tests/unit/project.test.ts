@@ -0,0 +1,103 @@
+import '../mocks';
+import { describe, test, expect } from 'bun:test';
+import { ProjectIndexer } from '../../src/parsers/project';
+import { DependencyResolver } from '../../src/parsers/dependency';
+import * as path from 'path';
+
+describe('ProjectIndexer', () => {
+  const projectDir = path.join(__dirname, 'fixtures', 'project');
+  const configPath = path.join(projectDir, 'phpunit.xml');
+
+  const loadIndex = () => {
+    const indexer = new ProjectIndexer();
+    indexer.load(configPath);
+    return indexer;
+  };
+
+  describe('getTestFiles', () => {
+    test('should collect test suite directories and files', () => {
+      const files = loadIndex()
+        .getTestFiles()
+        .map((file) => path.relative(projectDir, file));
+
+      expect(files).toEqual([
+        'tests/Unit/AccountsTest.php',
+        'tests/E2E/ProjectsTest.php',
+        'tests/Smoke/smoke.php',
+      ]);
+    });
+  });
+
+  describe('locate', () => {
+    test('should locate classes declared in test suites', () => {
+      const indexer = loadIndex();
+
+      expect(indexer.locate('Tests\\Smoke\\SmokeTest')).toBe(
+        path.join(projectDir, 'tests/Smoke/smoke.php'),
+      );
+      expect(indexer.locate('\\Tests\\E2E\\ProjectsTest')).toBe(
+        path.join(projectDir, 'tests/E2E/ProjectsTest.php'),
+      );
+    });
+
+    test('should locate other classes through PSR-4 maps', () => {
+      const indexer = loadIndex();
+
+      expect(indexer.locate('Tests\\Support\\BaseTestCase')).toBe(
+        path.join(projectDir, 'tests/Support/BaseTestCase.php'),
+      );
+      expect(indexer.locate('App\\Testing\\Factory')).toBe(
+        path.join(projectDir, 'support-extra/Factory.php'),
+      );
+    });
+
+    test('should return null for unknown classes', () => {
+      const indexer = loadIndex();
+
+      expect(indexer.locate('Tests\\Unit\\MissingTest')).toBeNull();
+      expect(indexer.locate('PHPUnit\\Framework\\TestCase')).toBeNull();
+    });
+  });
+
+  describe('with DependencyResolver', () => {
+    test('should resolve dependencies on tests in other files', () => {
+      const indexer = loadIndex();
+      const resolver = new DependencyResolver((className) =>
+        indexer.locate(className),
+      );
+      indexer.getTestFiles().forEach((file) => resolver.parseTestFile(file));
+
+      const filter = resolver.buildFilterPattern([
+        {
+          name: 'Tests\\E2E\\ProjectsTest::testCreateProject',
+          class: 'ProjectsTest',
+          method: 'testCreateProject',
+          file: '/usr/src/code/tests/E2E/ProjectsTest.php',
+        },
+      ]);
+
+      expect(filter).toContain('AccountsTest::testCreate');
+      expect(filter).toContain('ProjectsTest::testCreateProject');
+    });
+
+    test('should resolve parent classes outside the test suites', () => {
+      const indexer = loadIndex();
+      const resolver = new DependencyResolver((className) =>
+        indexer.locate(className),
+      );
+      indexer.getTestFiles().forEach((file) => resolver.parseTestFile(file));
+
+      expect(resolver.diagnose()).toEqual([]);
+      expect(
+        resolver.buildFilterPattern([
+          {
+            name: 'Tests\\Unit\\AccountsTest::testRead',
+            class: 'AccountsTest',
+            method: 'testRead',
+            file: '/usr/src/code/tests/Unit/AccountsTest.php',
+          },
+        ]),
+      ).toContain('AccountsTest::testHealth');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { JUnitReportBuilder } from '../../src/builders/report';
+import { JUnitParser } from '../../src/parsers/junit';
+import type { TestCaseResult } from '../../src/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+function result(
+  method: string,
+  outcome: TestCaseResult['outcome'],
+  extra: Partial<TestCaseResult> = {},
+): TestCaseResult {
+  return {
+    name: `Tests\\E2E\\ApiTest::${method}`,
+    class: 'ApiTest',
+    method,
+    file: '/usr/src/code/tests/E2E/ApiTest.php',
+    line: 10,
+    time: 0.5,
+    outcome,
+    ...extra,
+  };
+}
+
+describe('JUnitReportBuilder', () => {
+  const reportPath = path.join(os.tmpdir(), 'phpunit-retry-merged.xml');
+  const parser = new JUnitParser();
+
+  afterEach(() => {
+    fs.rmSync(reportPath, { force: true });
+  });
+
+  function buildAttempts(...attempts: TestCaseResult[][]): string {
+    const builder = new JUnitReportBuilder();
+    for (const attempt of attempts) {
+      builder.addAttempt(attempt);
+    }
+    builder.write(reportPath);
+    return fs.readFileSync(reportPath, 'utf-8');
+  }
+
+  test('should keep every test with its final outcome', () => {
+    buildAttempts(
+      [
+        result('testList', 'passed'),
+        result('testCreate', 'failed', { error: 'Expected 201' }),
+        result('testDelete', 'skipped'),
+      ],
+      [result('testCreate', 'passed'), result('testDelete', 'passed')],
+    );
+
+    const report = parser.parseReport(reportPath);
+    expect(report.testCases.map((t) => [t.method, t.outcome])).toEqual([
+      ['testList', 'passed'],
+      ['testCreate', 'passed'],
+      ['testDelete', 'passed'],
+    ]);
+    expect(report.stats).toMatchObject({ total: 3, failures: 0, skipped: 0 });
+  });
+
+  test('should report failures of tests passing on a retry as flaky', () => {
+    const xml = buildAttempts(
+      [result('testCreate', 'failed', { error: 'Expected 201' })],
+      [result('testCreate', 'error', { errorType: 'RuntimeException' })],
+      [result('testCreate', 'passed')],
+    );
+
+    expect(xml).toContain('<flakyFailure message="Expected 201">');
+    expect(xml).toContain('<flakyError type="RuntimeException">');
+    expect(xml).not.toContain('<failure');
+  });
+
+  test('should report the first failure and reruns of failing tests', () => {
+    const xml = buildAttempts(
+      [
+        result('testCreate', 'failed', {
+          error: 'First',
+          trace: 'First\n\n/usr/src/code/tests/E2E/ApiTest.php:12',
+          systemOut: 'POST /v1 500',
+        }),
+      ],
+      [result('testCreate', 'failed', { error: 'Second', trace: 'Second' })],
+    );
+
+    expect(xml).toContain(
+      '<failure message="First">First\n\n/usr/src/code/tests/E2E/ApiTest.php:12</failure>',
+    );
+    expect(xml).toContain('<system-out>POST /v1 500</system-out>');
+    expect(xml).toContain(
+      '<rerunFailure message="Second">\n        <stackTrace>Second</stackTrace>',
+    );
+
+    const [testCase] = parser.parseTestCases(reportPath);
+    expect(testCase).toMatchObject({ outcome: 'failed', error: 'First' });
+  });
+
+  test('should group tests by class with suite totals', () => {
+    buildAttempts([
+      result('testCreate', 'error'),
+      result('testPending', 'incomplete', {
+        error: 'Incomplete: not written',
+      }),
+      result('testDeprecated', 'warning'),
+      { ...result('testPing', 'passed'), name: 'Tests\\SmokeTest::testPing' },
+    ]);
+
+    const report = parser.parseReport(reportPath);
+    expect(report.stats).toMatchObject({
+      total: 4,
+      failures: 1,
+      incomplete: 1,
+      warnings: 1,
+    });
+    expect(report.testCases.map((t) => t.name)).toEqual([
+      'Tests\\E2E\\ApiTest::testCreate',
+      'Tests\\E2E\\ApiTest::testPending',
+      'Tests\\E2E\\ApiTest::testDeprecated',
+      'Tests\\SmokeTest::testPing',
+    ]);
+  });
+
+  test('should keep data sets and escape messages', () => {
+    buildAttempts([
+      result('testEmail with data set "a<b & \\"c\\""', 'failed', {
+        error: 'Line one\nLine "two" <ok>',
+      }),
+    ]);
+
+    const [testCase] = parser.parseTestCases(reportPath);
+    expect(testCase).toMatchObject({
+      method: 'testEmail',
+      dataSet: '@a<b & \\"c\\"',
+      error: 'Line one\nLine "two" <ok>',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import '../mocks';
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { ResultParser, detectResultFormat } from '../../src/parsers/results';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('detectResultFormat', () => {
+  const fixturesDir = path.join(__dirname, 'fixtures');
+
+  test('should detect each format from the start of the file', () => {
+    expect(detectResultFormat(path.join(fixturesDir, 'outcomes.xml'))).toBe(
+      'junit',
+    );
+    expect(detectResultFormat(path.join(fixturesDir, 'teamcity.txt'))).toBe(
+      'teamcity',
+    );
+    expect(detectResultFormat(path.join(fixturesDir, 'events.txt'))).toBe(
+      'events',
+    );
+    expect(detectResultFormat(path.join(fixturesDir, 'sample-test.php'))).toBe(
+      null,
+    );
+  });
+});
+
+describe('ResultParser', () => {
+  const fixturesDir = path.join(__dirname, 'fixtures');
+  const tmpDir = path.join(os.tmpdir(), 'phpunit-retry-results');
+
+  beforeAll(() => {
+    fs.mkdirSync(tmpDir, { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'empty.xml'), '');
+    fs.writeFileSync(
+      path.join(tmpDir, 'truncated.xml'),
+      '<testsuites><testcase name="testA"',
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should prefer JUnit details for tests also in a log', () => {
+    const report = new ResultParser().parseReports([
+      path.join(fixturesDir, 'teamcity.txt'),
+      path.join(fixturesDir, 'merge-e2e.xml'),
+    ]);
+    const testCreate = report.testCases.find((t) => t.method === 'testCreate');
+
+    expect(report.testCases[0]?.name).toBe('Tests\\E2E\\ApiTest::testCreate');
+    expect(testCreate).toMatchObject({
+      outcome: 'error',
+      errorType: 'RuntimeException',
+    });
+    expect(report.testCases.map((t) => t.method)).toContain('testUpload');
+  });
+
+  test('should skip empty and unreadable files', () => {
+    const report = new ResultParser().parseReports([
+      path.join(tmpDir, 'empty.xml'),
+      path.join(tmpDir, 'truncated.xml'),
+      path.join(fixturesDir, 'events.txt'),
+    ]);
+
+    expect(report.testCases).toHaveLength(5);
+  });
+
+  test('should use the configured format for every file', () => {
+    const report = new ResultParser('teamcity').parseReports([
+      path.join(fixturesDir, 'events.txt'),
+    ]);
+
+    expect(report.testCases).toHaveLength(0);
+  });
+
+  test('should read the JUnit reports of the action as JUnit', () => {
+    const junitPath = path.join(fixturesDir, 'merge-e2e.xml');
+    const report = new ResultParser('teamcity').parseReports(
+      [junitPath, path.join(fixturesDir, 'teamcity.txt')],
+      [junitPath],
+    );
+
+    expect(
+      report.testCases.find((t) => t.method === 'testCreate'),
+    ).toMatchObject({ outcome: 'error', errorType: 'RuntimeException' });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from 'bun:test';
+import { TeamCityParser, unescapeTeamCity } from '../../src/parsers/teamcity';
+import { UNFINISHED_TEST_ERROR } from '../../src/parsers/junit';
+import * as path from 'path';
+
+describe('TeamCityParser', () => {
+  const parser = new TeamCityParser();
+  const logPath = path.join(__dirname, 'fixtures', 'teamcity.txt');
+
+  test('should parse test outcomes from service messages', () => {
+    const { testCases } = parser.parseReport(logPath);
+
+    expect(testCases.map((t) => [t.name, t.outcome])).toEqual([
+      ['Tests\\E2E\\ApiTest::testCreate', 'failed'],
+      ['Tests\\E2E\\ApiTest::testList', 'skipped'],
+      [
+        'Tests\\E2E\\ApiTest::testEmail with data set "invalid \'email\'"',
+        'passed',
+      ],
+      ['Tests\\E2E\\ApiTest::testUpload', 'error'],
+    ]);
+  });
+
+  test('should extract failure details', () => {
+    const [failure, skipped] = parser.parseReport(logPath).testCases;
+
+    expect(failure).toMatchObject({
+      class: 'ApiTest',
+      method: 'testCreate',
+      file: '/usr/src/code/tests/E2E/ApiTest.php',
+      error: 'Failed asserting that 500 matches expected 201.',
+      frame: { file: '/usr/src/code/tests/E2E/ApiTest.php', line: 14 },
+      time: 0.012,
+    });
+    expect(skipped?.error).toBe(
+      'This test depends on "Tests\\E2E\\ApiTest::testCreate" to pass',
+    );
+  });
+
+  test('should keep data sets in filter notation', () => {
+    const testCase = parser.parseReport(logPath).testCases[2];
+
+    expect(testCase?.method).toBe('testEmail');
+    expect(testCase?.dataSet).toBe("@invalid 'email'");
+  });
+
+  test('should report a test cut off by the end of the log as an error', () => {
+    const { testCases, stats } = parser.parseReport(logPath);
+
+    expect(testCases[3]?.error).toBe(UNFINISHED_TEST_ERROR);
+    expect(stats).toMatchObject({ total: 5, failures: 2, skipped: 1 });
+  });
+
+  test('should separate interleaved flows of parallel workers', () => {
+    const hint = (name: string) =>
+      `locationHint='php_qn:///code/tests/${name}Test.php::\\Tests\\${name}Test::testRun'`;
+    const { testCases } = parser.parseLog(
+      [
+        `##teamcity[testStarted name='testRun' ${hint('A')} flowId='1']`,
+        `##teamcity[testStarted name='testRun' ${hint('B')} flowId='2']`,
+        `##teamcity[testFailed name='testRun' message='B failed' flowId='2']`,
+        `##teamcity[testFinished name='testRun' duration='5' flowId='1']`,
+        `##teamcity[testFinished name='testRun' duration='7' flowId='2']`,
+      ].join('\n'),
+    );
+
+    expect(testCases.map((t) => [t.name, t.outcome, t.time])).toEqual([
+      ['Tests\\ATest::testRun', 'passed', 0.005],
+      ['Tests\\BTest::testRun', 'failed', 0.007],
+    ]);
+  });
+
+  test('should read the exception class of errors', () => {
+    const { testCases } = parser.parseLog(
+      [
+        `##teamcity[testStarted name='testA' flowId='1']`,
+        `##teamcity[testFailed name='testA' message='GuzzleHttp\\Exception\\ConnectException: Connection refused' flowId='1']`,
+        `##teamcity[testStarted name='testB' flowId='1']`,
+        `##teamcity[testFailed name='testB' message='Failed asserting that false is true.' flowId='1']`,
+      ].join('\n'),
+    );
+
+    expect(testCases.map((t) => t.errorType)).toEqual([
+      'GuzzleHttp\\Exception\\ConnectException',
+      undefined,
+    ]);
+  });
+});
+
+describe('unescapeTeamCity', () => {
+  test('should decode escape sequences', () => {
+    expect(unescapeTeamCity("|'a|| b|n|[c|]|0x00e9")).toBe("'a| b\n[c]é");
+  });
+});
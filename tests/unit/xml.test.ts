@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  XmlStreamParser,
+  decodeEntities,
+  encodeEntities,
+} from '../../src/parsers/xml';
+
+type XmlEvent =
+  | ['open', string, Record<string, string>]
+  | ['close', string]
+  | ['text', string];
+
+// Parse in chunks of `size` characters, merging consecutive text events
+function parse(xml: string, size = xml.length): XmlEvent[] {
+  const events: XmlEvent[] = [];
+  const parser = new XmlStreamParser({
+    openTag: (name, attributes) => events.push(['open', name, attributes]),
+    closeTag: (name) => events.push(['close', name]),
+    text: (text) => {
+      const last = events[events.length - 1];
+      if (last?.[0] === 'text') {
+        last[1] += text;
+      } else {
+        events.push(['text', text]);
+      }
+    },
+  });
+
+  for (let i = 0; i < xml.length; i += size) {
+    parser.write(xml.substring(i, i + size));
+  }
+  parser.end();
+
+  return events;
+}
+
+describe('XmlStreamParser', () => {
+  const document = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE testsuites>',
+    '<testsuites name="a &amp; b">',
+    '<!-- <testcase name="commented"/> -->',
+    `<testcase name='x > y' class="A\\B"/>`,
+    '<system-out><![CDATA[<b>raw</b> ]]]]><![CDATA[>]]> &lt;ok&gt; &#233;&#x1F600;</system-out>',
+    '</testsuites>',
+  ].join('\n');
+
+  const expected: XmlEvent[] = [
+    ['text', '\n\n'],
+    ['open', 'testsuites', { name: 'a & b' }],
+    ['text', '\n\n'],
+    ['open', 'testcase', { name: 'x > y', class: 'A\\B' }],
+    ['close', 'testcase'],
+    ['text', '\n'],
+    ['open', 'system-out', {}],
+    ['text', '<b>raw</b> ]]> <ok> é😀'],
+    ['close', 'system-out'],
+    ['text', '\n'],
+    ['close', 'testsuites'],
+  ];
+
+  test('should emit tags, attributes and decoded text', () => {
+    expect(parse(document)).toEqual(expected);
+  });
+
+  test('should produce the same events for any chunk size', () => {
+    for (const size of [1, 2, 3, 5, 7, 11, 64]) {
+      expect(parse(document, size)).toEqual(expected);
+    }
+  });
+
+  test('should pass on long CDATA before it is closed', () => {
+    const texts: string[] = [];
+    const parser = new XmlStreamParser({
+      openTag: () => {},
+      closeTag: () => {},
+      text: (text) => texts.push(text),
+    });
+
+    parser.write('<out><![CDATA[first part, ');
+    // The last two characters could start the `]]>` terminator
+    expect(texts.join('')).toBe('first part');
+
+    parser.write('second part]]></out>');
+    parser.end();
+    expect(texts.join('')).toBe('first part, second part');
+  });
+
+  test('should fail on truncated documents', () => {
+    expect(() => parse('<testsuites><testcase name="a"')).toThrow(
+      'Unexpected end of XML document',
+    );
+    expect(() => parse('<out><![CDATA[never closed')).toThrow(
+      'Unexpected end of XML document',
+    );
+  });
+});
+
+describe('decodeEntities', () => {
+  test('should decode predefined and numeric entities', () => {
+    expect(decodeEntities('&lt;&gt;&amp;&quot;&apos;&#65;&#x42;')).toBe(
+      `<>&"'AB`,
+    );
+  });
+
+  test('should keep unknown entities and bare ampersands', () => {
+    expect(decodeEntities('&nbsp; a & b &#xFFFFFF;')).toBe(
+      '&nbsp; a & b &#xFFFFFF;',
+    );
+  });
+});
+
+describe('encodeEntities', () => {
+  test('should escape markup in text', () => {
+    expect(encodeEntities('a < b && "c"\n')).toBe('a &lt; b &amp;&amp; "c"\n');
+  });
+
+  test('should keep quotes and whitespace in attributes', () => {
+    const value = 'say "hi"\n\tbye';
+    expect(encodeEntities(value, true)).toBe('say &quot;hi&quot;&#10;&#9;bye');
+    expect(decodeEntities(encodeEntities(value, true))).toBe(value);
+  });
+
+  test('should drop control characters', () => {
+    expect(encodeEntities('\x1b[31mred\x1b[0m')).toBe('[31mred[0m');
+  });
+});